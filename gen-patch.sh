@@ -49,6 +49,11 @@ done
 node scripts/buildI18n.js
 node scripts/generateIconDts.js
 
+# Check the sources and the build against the golden fixtures
+for entry in src/index.ts dist/main.js; do
+    "$project_dir/node_modules/.bin/tsx" "$project_dir/scripts/conformance-bikramsambat.ts" "packages/@internationalized/date/$entry"
+done
+
 # Setup patched package
 cd ..
 mkdir patched-packages
@@ -71,3 +76,12 @@ mkdir -p "$project_dir/patches"
 cp patches/@internationalized__date.patch "$project_dir/patches/$PATCH_FILE"
 
 echo "Patch file created at patches/$PATCH_FILE"
+
+# Install the new patch in this project, so that the scripts use it, and check the installed package
+cd "$project_dir"
+jq --arg version "$package_version" --arg patch "patches/$PATCH_FILE" \
+    '.devDependencies["@internationalized/date"] = $version | .pnpm.patchedDependencies = {("@internationalized/date@" + $version): $patch}' \
+    package.json > "$TEMP_DIR/package.json"
+mv "$TEMP_DIR/package.json" package.json
+pnpm install
+node_modules/.bin/tsx scripts/conformance-bikramsambat.ts
@@ -10,9 +10,14 @@
  * governing permissions and limitations under the License.
  */
 
-import {NepaliDateTimeFormat} from './NepaliDateTimeFormat';
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
+import {CalendarRegistration, formatsCalendarDates, getLocaleCalendar, getRegisteredCalendar} from './calendarRegistry';
 
-let formatterCache = new Map<string, Intl.DateTimeFormat>();
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+
+// Each formatter is cached with the calendar registration it was created from, so that formatters from
+// registrations that were since replaced or removed are not reused
+let formatterCache = new Map<string, {formatter: Intl.DateTimeFormat, registration: CalendarRegistration | null}>();
 
 interface DateRangeFormatPart extends Intl.DateTimeFormatPart {
   source: 'startRange' | 'endRange' | 'shared'
@@ -31,18 +36,44 @@ export class DateFormatter implements Intl.DateTimeFormat {
     this.resolvedCalendar = options.calendar;
   }
 
-  /** Formats a date as a string according to the locale and format options passed to the constructor. */
-  format(value: Date): string {
-    return this.formatter.format(value);
+  /**
+   * Formats a date as a string according to the locale and format options passed to the constructor.
+   * Formatters of registered calendars that format calendar dates from their fields, such as the Nepali
+   * calendars, are given the date as it is; otherwise `CalendarDate` and `CalendarDateTime` values are
+   * formatted at their wall-clock time in the formatter's time zone.
+   */
+  format(value: Date): string;
+  format(value: Date | DateValue): string;
+  format(value: Date | DateValue): string {
+    if (formatsCalendarDates(this.formatter)) {
+      return this.formatter.format(value);
+    }
+
+    return this.formatter.format(this.toDate(value));
   }
 
   /** Formats a date to an array of parts such as separators, numbers, punctuation, and more. */
-  formatToParts(value: Date): Intl.DateTimeFormatPart[] {
-    return this.formatter.formatToParts(value);
+  formatToParts(value: Date): Intl.DateTimeFormatPart[];
+  formatToParts(value: Date | DateValue): Intl.DateTimeFormatPart[];
+  formatToParts(value: Date | DateValue): Intl.DateTimeFormatPart[] {
+    if (formatsCalendarDates(this.formatter)) {
+      return this.formatter.formatToParts(value);
+    }
+
+    return this.formatter.formatToParts(this.toDate(value));
   }
 
   /** Formats a date range as a string. */
-  formatRange(start: Date, end: Date): string {
+  formatRange(start: Date, end: Date): string;
+  formatRange(start: Date | DateValue, end: Date | DateValue): string;
+  formatRange(start: Date | DateValue, end: Date | DateValue): string {
+    if (formatsCalendarDates(this.formatter)) {
+      return this.formatter.formatRange(start, end);
+    }
+
+    start = this.toDate(start);
+    end = this.toDate(end);
+
     // @ts-ignore
     if (typeof this.formatter.formatRange === 'function') {
       // @ts-ignore
@@ -58,7 +89,16 @@ export class DateFormatter implements Intl.DateTimeFormat {
   }
 
   /** Formats a date range as an array of parts. */
-  formatRangeToParts(start: Date, end: Date): DateRangeFormatPart[] {
+  formatRangeToParts(start: Date, end: Date): DateRangeFormatPart[];
+  formatRangeToParts(start: Date | DateValue, end: Date | DateValue): DateRangeFormatPart[];
+  formatRangeToParts(start: Date | DateValue, end: Date | DateValue): DateRangeFormatPart[] {
+    if (formatsCalendarDates(this.formatter)) {
+      return this.formatter.formatRangeToParts(start, end) as DateRangeFormatPart[];
+    }
+
+    start = this.toDate(start);
+    end = this.toDate(end);
+
     // @ts-ignore
     if (typeof this.formatter.formatRangeToParts === 'function') {
       // @ts-ignore
@@ -97,6 +137,14 @@ export class DateFormatter implements Intl.DateTimeFormat {
 
     return resolvedOptions;
   }
+
+  private toDate(value: Date | DateValue): Date {
+    if (value instanceof Date) {
+      return value;
+    }
+
+    return 'timeZone' in value ? value.toDate() : value.toDate(this.formatter.resolvedOptions().timeZone);
+  }
 }
 
 // There are multiple bugs involving the hour12 and hourCycle options in various browser engines.
@@ -132,21 +180,20 @@ function getCachedDateFormatter(locale: string, options: Intl.DateTimeFormatOpti
   }
 
   let cacheKey = locale + (options ? Object.entries(options).sort((a, b) => a[0] < b[0] ? -1 : 1).join() : '');
-  if (formatterCache.has(cacheKey)) {
-    return formatterCache.get(cacheKey)!;
-  }
-
-  const calendar = options.calendar || locale.match(/-u(?:-[a-z0-9]{2,8})*-ca-([a-z0-9]+)/i)?.[1];
 
-  if (calendar === 'nepali') {
-    let nepaliFormatter = new NepaliDateTimeFormat(locale, options);
-    formatterCache.set(cacheKey, nepaliFormatter);
-    return nepaliFormatter;
+  // Calendars registered at runtime may supply their own formatter
+  let calendar = options.calendar || getLocaleCalendar(locale);
+  let registration = (calendar ? getRegisteredCalendar(calendar)?.registration : null) ?? null;
+  let cached = formatterCache.get(cacheKey);
+  if (cached && cached.registration === registration) {
+    return cached.formatter;
   }
 
-  let numberFormatter = new Intl.DateTimeFormat(locale, options);
-  formatterCache.set(cacheKey, numberFormatter);
-  return numberFormatter;
+  let formatter = registration?.createDateTimeFormat
+    ? registration.createDateTimeFormat(locale, options)
+    : new Intl.DateTimeFormat(locale, options);
+  formatterCache.set(cacheKey, {formatter, registration});
+  return formatter;
 }
 
 let _hasBuggyHour12Behavior: boolean | null = null;
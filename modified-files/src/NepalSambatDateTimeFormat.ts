@@ -0,0 +1,70 @@
+import {AnyCalendarDate} from './types';
+import {getNepaliLunarDate} from './NepaliLunarDate';
+import {NepalSambatCalendar} from './calendars/NepalSambatCalendar';
+import {NepaliDateTimeFormat, NepaliDateTimeFormatOptions} from './NepaliDateTimeFormat';
+
+// Nepal Bhasa month names, from Kachhala to Kaula
+export const NEWARI_MONTH_NAMES = [
+  'कछला', 'थिंला', 'पोहेला', 'सिल्ला', 'चिल्ला', 'चौला',
+  'बछला', 'तछला', 'दिल्ला', 'गुंला', 'ञला', 'कौला'
+];
+
+export const TRANSLITERATED_NEWARI_MONTH_NAMES = [
+  'Kachhala', 'Thinla', 'Pohela', 'Silla', 'Chilla', 'Chaula',
+  'Bachhala', 'Tachhala', 'Dilla', 'Gunla', 'Yanla', 'Kaula'
+];
+
+// Names of the bright (thwa) and dark (ga) halves of the month
+const NEWARI_PAKSHA_NAMES = {shukla: 'थ्व', krishna: 'गा'};
+const TRANSLITERATED_NEWARI_PAKSHA_NAMES = {shukla: 'Thwa', krishna: 'Ga'};
+
+const NEPAL_SAMBAT_ERA_NAMES = {
+  long: 'नेपाल सम्बत',
+  short: 'ने.सं.',
+  narrow: 'ने.सं.'
+};
+
+const TRANSLITERATED_NEPAL_SAMBAT_ERA_NAMES = {
+  long: 'Nepal Sambat',
+  short: 'NS',
+  narrow: 'NS'
+};
+
+/**
+ * Formats dates in the Nepal Sambat calendar, like `NepaliDateTimeFormat` does for Bikram Sambat.
+ * Months are written with their Nepal Bhasa names, and days as the paksha and tithi, e.g. "कछला थ्व ५"
+ * for the fifth tithi of the bright half of Kachhala, as in almanacs.
+ */
+export class NepalSambatDateTimeFormat extends NepaliDateTimeFormat {
+  private newariNames: boolean;
+
+  constructor(locale: string, options: NepaliDateTimeFormatOptions = {}) {
+    super(locale, options);
+    this.calendar = new NepalSambatCalendar();
+
+    // Covers both Nepali (ne) and Nepal Bhasa (new), which get the names in Devanagari
+    this.newariNames = locale.startsWith('ne');
+  }
+
+  protected formatNepaliMonth(date: AnyCalendarDate): string {
+    const {month, adhik} = (this.calendar as NepalSambatCalendar).getMonthName(date);
+    const width = this.fieldWidths.month;
+    if (width === 'numeric' || width === '2-digit') {
+      return this.formatNepaliValue(month, width);
+    }
+
+    const name = (this.newariNames ? NEWARI_MONTH_NAMES : TRANSLITERATED_NEWARI_MONTH_NAMES)[month - 1];
+    return adhik ? (this.newariNames ? 'अधिक ' : 'Adhik ') + name : name;
+  }
+
+  protected formatNepaliDay(date: AnyCalendarDate): string {
+    const {paksha, tithi} = getNepaliLunarDate(date, 'amanta');
+    const pakshaNames = this.newariNames ? NEWARI_PAKSHA_NAMES : TRANSLITERATED_NEWARI_PAKSHA_NAMES;
+    return pakshaNames[paksha] + ' ' + this.formatNepaliValue(tithi, this.fieldWidths.day);
+  }
+
+  protected formatNepaliEra(): string {
+    const eraNames = this.newariNames ? NEPAL_SAMBAT_ERA_NAMES : TRANSLITERATED_NEPAL_SAMBAT_ERA_NAMES;
+    return eraNames[this.fieldWidths.era];
+  }
+}
@@ -0,0 +1,185 @@
+import {CalendarDate} from './CalendarDate';
+import {getDayOfWeek, isWeekend} from './queries';
+import {NepaliCalendar, NepaliCalendarRangeError} from './calendars/NepaliCalendar';
+import {toCalendar} from './conversion';
+
+type DayOfWeek = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+const DAYS: DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** A holiday or other observance on a Bikram Sambat date. */
+export interface NepaliObservance {
+  month: number,
+  day: number,
+  name: string,
+  /** Whether offices are closed. Observances that are not holidays do not affect business days. */
+  holiday: boolean
+}
+
+/**
+ * Supplies the observances for a Bikram Sambat year, e.g. from the holiday list published by the
+ * government each year. Providers are asked for each year at most once per `NepaliBusinessCalendar`.
+ */
+export interface NepaliHolidayProvider {
+  getObservances(year: number): NepaliObservance[]
+}
+
+export interface NepaliBusinessCalendarOptions {
+  /**
+   * The locale used to determine the weekend, e.g. Saturday for `ne-NP`.
+   * @default 'ne-NP'
+   */
+  locale?: string,
+  /**
+   * The days of the weekend, overriding the locale, e.g. `['sat', 'sun']` for offices with a two day weekend.
+   * At least one day of the week must be a working day.
+   */
+  weekend?: DayOfWeek[],
+  /** The providers that supply holidays and observances. */
+  providers?: NepaliHolidayProvider[],
+  /** The calendar used for Bikram Sambat dates, e.g. one created with additional month data. */
+  calendar?: NepaliCalendar
+}
+
+// National holidays that fall on the same Bikram Sambat date every year, with the first year they were observed
+const FIXED_HOLIDAYS: Array<NepaliObservance & {since?: number}> = [
+  {month: 1, day: 1, name: 'नयाँ वर्ष', holiday: true},
+  {month: 2, day: 15, name: 'गणतन्त्र दिवस', holiday: true, since: 2066},
+  {month: 6, day: 3, name: 'संविधान दिवस', holiday: true, since: 2073},
+  {month: 10, day: 1, name: 'माघे संक्रान्ति', holiday: true},
+  {month: 11, day: 7, name: 'प्रजातन्त्र दिवस', holiday: true, since: 2008}
+];
+
+/**
+ * National holidays that fall on fixed Bikram Sambat dates: New Year, Republic Day, Constitution Day,
+ * Maghe Sankranti and Democracy Day. Holidays that follow the lunar calendar, such as Dashain and Tihar,
+ * change every year and must come from another provider.
+ */
+export const nepaliFixedHolidays: NepaliHolidayProvider = {
+  getObservances(year: number) {
+    return FIXED_HOLIDAYS
+      .filter(observance => observance.since === undefined || year >= observance.since)
+      .map(({month, day, name, holiday}) => ({month, day, name, holiday}));
+  }
+};
+
+/**
+ * Determines business days in Nepal from a weekend rule and pluggable holiday providers, and does
+ * business day arithmetic on `CalendarDate`s. Dates in other calendars are converted to the
+ * `NepaliCalendar` to look up observances, and results are returned in the calendar of the input.
+ */
+export class NepaliBusinessCalendar {
+  private locale: string;
+  private weekend: Set<number> | null;
+  private providers: NepaliHolidayProvider[];
+  private calendar: NepaliCalendar;
+  private observancesByYear = new Map<number, Map<string, NepaliObservance[]>>();
+
+  constructor(options: NepaliBusinessCalendarOptions = {}) {
+    this.locale = options.locale ?? 'ne-NP';
+    this.weekend = null;
+    if (options.weekend) {
+      for (const day of options.weekend) {
+        if (!DAYS.includes(day)) {
+          throw new Error('Invalid weekend day: ' + day);
+        }
+      }
+
+      this.weekend = new Set(options.weekend.map(day => DAYS.indexOf(day)));
+      if (this.weekend.size === DAYS.length) {
+        throw new Error('The weekend must leave at least one working day');
+      }
+    }
+
+    this.providers = options.providers ?? [nepaliFixedHolidays];
+    this.calendar = options.calendar ?? new NepaliCalendar();
+  }
+
+  /** Returns the observances on the given date, including those that are not holidays. */
+  getObservances(date: CalendarDate): NepaliObservance[] {
+    const nepali = toCalendar(date, this.calendar);
+    return this.getObservancesForYear(nepali.year).get(nepali.month + '-' + nepali.day) ?? [];
+  }
+
+  /** Returns whether the given date falls on the weekend. */
+  isWeekend(date: CalendarDate): boolean {
+    if (this.weekend) {
+      return this.weekend.has(getDayOfWeek(date, this.locale, 'sun'));
+    }
+
+    return isWeekend(date, this.locale);
+  }
+
+  /** Returns whether offices are closed for a holiday on the given date. */
+  isHoliday(date: CalendarDate): boolean {
+    return this.getObservances(date).some(observance => observance.holiday);
+  }
+
+  /** Returns whether the given date is neither on the weekend nor a holiday. */
+  isBusinessDay(date: CalendarDate): boolean {
+    return !this.isWeekend(date) && !this.isHoliday(date);
+  }
+
+  /**
+   * Returns the date the given number of business days after the date, or before it if `days` is negative.
+   * The date itself is not counted, so adding one business day on a Friday before a Saturday weekend
+   * returns the following Sunday. Adding zero days returns the date unchanged. Throws a
+   * `NepaliCalendarRangeError` if there are not enough business days before the end of the calendar's
+   * supported range, e.g. because the providers mark every remaining day as a holiday.
+   */
+  addBusinessDays(date: CalendarDate, days: number): CalendarDate {
+    const step = days < 0 ? -1 : 1;
+    const {start, end} = this.calendar.getSupportedRange();
+    const limit = step > 0 ? end : start;
+    let remaining = Math.abs(days);
+    let current = date;
+    while (remaining > 0) {
+      if (current.compare(limit) === 0) {
+        throw new NepaliCalendarRangeError('Not enough business days in the supported range to add: ' + days, days, start, end);
+      }
+
+      current = current.add({days: step});
+      if (this.isBusinessDay(current)) {
+        remaining--;
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Returns the number of business days from `start` up to but not including `end`.
+   * The result is negative when `end` is before `start`.
+   */
+  countBusinessDays(start: CalendarDate, end: CalendarDate): number {
+    if (end.compare(start) < 0) {
+      return -this.countBusinessDays(end, start);
+    }
+
+    let count = 0;
+    for (let current = start; current.compare(end) < 0; current = current.add({days: 1})) {
+      if (this.isBusinessDay(current)) {
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  private getObservancesForYear(year: number) {
+    let observances = this.observancesByYear.get(year);
+    if (!observances) {
+      observances = new Map();
+      for (const provider of this.providers) {
+        for (const observance of provider.getObservances(year)) {
+          const key = observance.month + '-' + observance.day;
+          observances.set(key, [...(observances.get(key) ?? []), observance]);
+        }
+      }
+
+      this.observancesByYear.set(year, observances);
+    }
+
+    return observances;
+  }
+}
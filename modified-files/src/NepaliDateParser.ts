@@ -0,0 +1,189 @@
+import {CalendarDate} from './CalendarDate';
+import {fromDevanagariDigits, NEPALI_MONTH_NAMES, TRANSLITERATED_MONTH_NAMES} from './NepaliDateTimeFormat';
+import {NepaliCalendar} from './calendars/NepaliCalendar';
+
+export type NepaliDateParseField = 'year' | 'month' | 'day' | 'format';
+
+/**
+ * Error thrown when a Bikram Sambat date string cannot be parsed.
+ * The `field` property describes which part of the input was rejected.
+ */
+export class NepaliDateParseError extends Error {
+  readonly field: NepaliDateParseField;
+  readonly input: string;
+
+  constructor(message: string, field: NepaliDateParseField, input: string) {
+    super(message);
+    this.name = 'NepaliDateParseError';
+    this.field = field;
+    this.input = input;
+  }
+}
+
+// Common spellings of the month names, in addition to the ones used for formatting
+const MONTH_ALIASES = [
+  ['baisakh', 'baishakh', 'baisakha', 'baishakha', 'vaisakh', 'vaishakh', 'vaisakha', 'vaishakha', 'वैशाख', 'बैसाख'],
+  ['jeth', 'jestha', 'jeshtha', 'jyestha', 'jyeshtha', 'जेष्ठ', 'ज्येष्ठ'],
+  ['asar', 'asadh', 'ashar', 'ashadh', 'asadha', 'ashadha', 'आषाढ', 'असाढ'],
+  ['saun', 'sawan', 'shrawan', 'shravan', 'srawan', 'sravan', 'shraawan', 'साउन', 'सावन'],
+  ['bhadau', 'bhadra', 'bhadrapad', 'भदौ', 'भाद्रपद'],
+  ['asoj', 'ashoj', 'ashwin', 'aswin', 'ashvin', 'असोज', 'अश्विन'],
+  ['kartik', 'kattik', 'karthik', 'कात्तिक'],
+  ['mangsir', 'mansir', 'mangshir', 'margashirsha', 'marga', 'मङ्सिर', 'मार्गशीर्ष'],
+  ['poush', 'push', 'paush', 'pus', 'poos', 'पुस'],
+  ['magh', 'maagh'],
+  ['falgun', 'phalgun', 'fagun', 'phagun', 'फागुन'],
+  ['chaitra', 'chait', 'चैत']
+];
+
+// Era markers, removed before the remaining tokens are interpreted
+const ERA_RE = /(?:[बव]ि\.?\s*सं\.?|[बव]िक्रम\s*(?:सम्बत|संवत|सम्वत)|\bb\.?\s*s\.?(?=\s|$)|\bv\.?\s*s\.?(?=\s|$)|\bbikram\s+sambat\b|\bvikram\s+samvat\b)/giu;
+
+// Words that commonly surround the fields but carry no value, e.g. "२०८१ साल साउन ५ गते"
+const IGNORED_WORDS = new Set(['साल', 'गते', 'sal', 'saal', 'gate', 'of', 'the']);
+
+let monthLookup: Map<string, number> | null = null;
+
+function getMonthLookup() {
+  if (!monthLookup) {
+    monthLookup = new Map();
+    for (const names of [NEPALI_MONTH_NAMES.long, NEPALI_MONTH_NAMES.short, NEPALI_MONTH_NAMES.narrow, TRANSLITERATED_MONTH_NAMES.long, TRANSLITERATED_MONTH_NAMES.short]) {
+      names.forEach((name, index) => monthLookup!.set(normalizeWord(name), index + 1));
+    }
+
+    MONTH_ALIASES.forEach((aliases, index) => {
+      for (const alias of aliases) {
+        monthLookup!.set(normalizeWord(alias), index + 1);
+      }
+    });
+  }
+
+  return monthLookup;
+}
+
+function normalizeWord(word: string) {
+  return word.normalize('NFC').toLowerCase().replace(/\./g, '');
+}
+
+/**
+ * Parses user-entered Bikram Sambat dates such as "२०८१ साउन ५", "5 Shrawan 2081", "2081/04/05" or
+ * "2081-4-5 BS" into a `CalendarDate` in the `NepaliCalendar`. Devanagari and Latin digits, month names
+ * in any width, common transliterations and era markers are accepted. When the order of purely numeric
+ * input cannot be told from a four digit year at the start, the order used by the locale is followed.
+ */
+export class NepaliDateParser {
+  private locale: string;
+  private calendar: NepaliCalendar;
+  private numericOrder: Array<'year' | 'month' | 'day'> | null = null;
+
+  constructor(locale: string) {
+    this.locale = locale;
+    this.calendar = new NepaliCalendar();
+  }
+
+  /**
+   * Parse a date string, throwing a `NepaliDateParseError` describing the rejected field if it is invalid.
+   */
+  parse(value: string): CalendarDate {
+    const input = fromDevanagariDigits(value.normalize('NFC'))
+      .replace(ERA_RE, ' ')
+      .replace(/(\d)(?:st|nd|rd|th)\b/gi, '$1');
+
+    const numbers: string[] = [];
+    let month: number | null = null;
+    for (const token of input.match(/\d+|[\p{L}\p{M}.]+/gu) ?? []) {
+      if (/^\d+$/.test(token)) {
+        numbers.push(token);
+        continue;
+      }
+
+      const word = normalizeWord(token);
+      if (word === '' || IGNORED_WORDS.has(word)) {
+        continue;
+      }
+
+      const monthValue = getMonthLookup().get(word);
+      if (monthValue === undefined) {
+        throw new NepaliDateParseError('Unknown month name: ' + token, 'month', value);
+      }
+
+      if (month !== null) {
+        throw new NepaliDateParseError('More than one month name in: ' + value, 'month', value);
+      }
+
+      month = monthValue;
+    }
+
+    let fields: {year: string, month: string | number, day: string};
+    if (month !== null) {
+      if (numbers.length !== 2) {
+        throw new NepaliDateParseError('Expected a year and a day with the month name in: ' + value, 'format', value);
+      }
+
+      // The year is the only field that is written with more than two digits
+      const yearIndex = numbers.findIndex(n => n.length > 2);
+      if (yearIndex < 0) {
+        throw new NepaliDateParseError('Missing four digit year in: ' + value, 'year', value);
+      }
+
+      fields = {year: numbers[yearIndex], month, day: numbers[1 - yearIndex]};
+    } else {
+      if (numbers.length !== 3) {
+        throw new NepaliDateParseError('Expected year, month and day in: ' + value, 'format', value);
+      }
+
+      let order = this.getNumericOrder();
+      if (numbers[0].length > 2) {
+        order = ['year', 'month', 'day'];
+      } else if (numbers[2].length > 2) {
+        // Keep the locale's relative order of month and day, falling back to day/month for year-first locales
+        order = order[0] === 'year' ? ['day', 'month', 'year'] : [...order.filter(field => field !== 'year'), 'year'];
+      } else {
+        throw new NepaliDateParseError('Missing four digit year in: ' + value, 'year', value);
+      }
+
+      fields = {
+        year: numbers[order.indexOf('year')],
+        month: numbers[order.indexOf('month')],
+        day: numbers[order.indexOf('day')]
+      };
+    }
+
+    return this.toDate(Number(fields.year), Number(fields.month), Number(fields.day), value);
+  }
+
+  /**
+   * Validate the fields against the calendar's data and create the date.
+   */
+  private toDate(year: number, month: number, day: number, input: string): CalendarDate {
+    const {start, end} = this.calendar.getSupportedRange();
+    if (year < start.year || year > end.year) {
+      throw new NepaliDateParseError('Year outside supported range: ' + year, 'year', input);
+    }
+
+    if (month < 1 || month > 12) {
+      throw new NepaliDateParseError('Invalid month: ' + month, 'month', input);
+    }
+
+    const daysInMonth = this.calendar.getDaysInMonth(new CalendarDate(this.calendar, year, month, 1));
+    if (day < 1 || day > daysInMonth) {
+      throw new NepaliDateParseError('Invalid day: ' + day, 'day', input);
+    }
+
+    return new CalendarDate(this.calendar, year, month, day);
+  }
+
+  /**
+   * Get the order of the numeric date fields in the locale, e.g. month/day/year for en-US.
+   */
+  private getNumericOrder(): Array<'year' | 'month' | 'day'> {
+    if (!this.numericOrder) {
+      const formatter = new Intl.DateTimeFormat(this.locale, {year: 'numeric', month: 'numeric', day: 'numeric', calendar: 'gregory'});
+      this.numericOrder = formatter.formatToParts(new Date())
+        .map(part => part.type)
+        .filter((type): type is 'year' | 'month' | 'day' => type === 'year' || type === 'month' || type === 'day');
+    }
+
+    return this.numericOrder;
+  }
+}
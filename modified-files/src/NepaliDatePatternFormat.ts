@@ -0,0 +1,295 @@
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
+import {fromDate, toCalendar, toCalendarDate, toDate} from './conversion';
+import {getLocalTimeZone} from './queries';
+import {GregorianCalendar} from './calendars/GregorianCalendar';
+import {
+  NEPALI_ERA_NAMES,
+  NEPALI_MONTH_NAMES,
+  toDevanagariDigits,
+  TRANSLITERATED_ERA_NAMES,
+  TRANSLITERATED_MONTH_NAMES
+} from './NepaliDateTimeFormat';
+import {NepaliCalendar} from './calendars/NepaliCalendar';
+
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+
+type PatternField = 'year' | 'month' | 'day' | 'weekday' | 'era' | 'hour' | 'hour12' | 'minute' | 'second' | 'dayPeriod';
+
+interface PatternToken {
+  field: PatternField | 'literal',
+  // The number of pattern letters, or the text of a literal
+  length: number,
+  value?: string
+}
+
+export interface NepaliDatePatternFormatOptions {
+  /**
+   * An explicit pattern such as "yyyy/MM/dd" or "yyyy 'साल' MMMM dd 'गते'". Uppercase `Y` and `D` are
+   * accepted for the year and day, so "YYYY/MM/DD" works too. Text in single quotes, and any other
+   * character that is not a pattern letter, is copied as is.
+   */
+  pattern?: string,
+  /**
+   * A CLDR skeleton such as "yMMMd" or "yMMMMEEEEd", listing the fields and their widths. The order
+   * and separators come from the locale's Gregorian pattern for the same fields.
+   */
+  skeleton?: string,
+  /**
+   * The digits to use. Defaults to Devanagari digits for Nepali locales and Latin digits otherwise.
+   */
+  numberingSystem?: 'latn' | 'deva',
+  /** The time zone used to find the date of a JavaScript `Date`. Defaults to the local time zone. */
+  timeZone?: string,
+  /** The calendar used for Bikram Sambat dates, e.g. one created with additional month data. */
+  calendar?: NepaliCalendar
+}
+
+const PATTERN_FIELDS: Record<string, PatternField> = {
+  y: 'year',
+  Y: 'year',
+  M: 'month',
+  L: 'month',
+  d: 'day',
+  D: 'day',
+  E: 'weekday',
+  c: 'weekday',
+  G: 'era',
+  H: 'hour',
+  h: 'hour12',
+  m: 'minute',
+  s: 'second',
+  a: 'dayPeriod'
+};
+
+// 3 February 2001 04:05:06: every numeric field is distinguishable between its numeric and 2-digit forms
+const PROBE_DATE = Date.UTC(2001, 1, 3, 4, 5, 6);
+
+const TEXT_WIDTHS = ['short', 'short', 'short', 'long', 'narrow'] as const;
+
+function getTextWidth(length: number) {
+  return TEXT_WIDTHS[Math.min(length, 5) - 1];
+}
+
+/** Splits an explicit pattern into fields and literal text. */
+function parsePattern(pattern: string): PatternToken[] {
+  const tokens: PatternToken[] = [];
+  const pushLiteral = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.field === 'literal') {
+      last.value += text;
+    } else {
+      tokens.push({field: 'literal', length: 0, value: text});
+    }
+  };
+
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "'") {
+      // '' is an apostrophe, both inside and outside quoted text
+      if (pattern[i + 1] === "'") {
+        pushLiteral("'");
+        i += 2;
+        continue;
+      }
+
+      let text = '';
+      i++;
+      while (i < pattern.length && !(pattern[i] === "'" && pattern[i + 1] !== "'")) {
+        text += pattern[i];
+        i += pattern[i] === "'" ? 2 : 1;
+      }
+
+      if (i >= pattern.length) {
+        throw new Error('Unterminated quote in pattern: ' + pattern);
+      }
+
+      pushLiteral(text);
+      i++;
+    } else if (char in PATTERN_FIELDS) {
+      let length = 1;
+      while (pattern[i + length] === char) {
+        length++;
+      }
+
+      tokens.push({field: PATTERN_FIELDS[char], length});
+      i += length;
+    } else {
+      pushLiteral(char);
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/** Expands a skeleton to an explicit pattern, using the locale's Gregorian pattern for the same fields. */
+function skeletonToPattern(locale: string, skeleton: string): string {
+  const letters = new Map<string, number>();
+  for (const match of skeleton.matchAll(/([a-zA-Z])\1*/g)) {
+    letters.set(match[1], match[0].length);
+  }
+
+  const options: Intl.DateTimeFormatOptions = {calendar: 'gregory', numberingSystem: 'latn', timeZone: 'UTC'};
+  const tokens = new Map<Intl.DateTimeFormatPartTypes, string>();
+  for (const [letter, length] of letters) {
+    switch (letter) {
+      case 'y':
+      case 'Y':
+        options.year = length === 2 ? '2-digit' : 'numeric';
+        tokens.set('year', 'y'.repeat(length));
+        break;
+      case 'M':
+      case 'L':
+        options.month = length >= 3 ? getTextWidth(length) : length === 2 ? '2-digit' : 'numeric';
+        tokens.set('month', 'M'.repeat(length));
+        break;
+      case 'd':
+      case 'D':
+        options.day = length === 2 ? '2-digit' : 'numeric';
+        break;
+      case 'E':
+      case 'c':
+        options.weekday = getTextWidth(length);
+        tokens.set('weekday', 'E'.repeat(length));
+        break;
+      case 'G':
+        options.era = getTextWidth(length);
+        tokens.set('era', 'G'.repeat(length));
+        break;
+      case 'H':
+      case 'h':
+      case 'j':
+        options.hour = length === 2 ? '2-digit' : 'numeric';
+        if (letter !== 'j') {
+          options.hourCycle = letter === 'H' ? 'h23' : 'h12';
+        }
+        break;
+      case 'm':
+        options.minute = length === 2 ? '2-digit' : 'numeric';
+        break;
+      case 's':
+        options.second = length === 2 ? '2-digit' : 'numeric';
+        break;
+      case 'a':
+        break;
+      default:
+        throw new Error('Unsupported skeleton field: ' + letter);
+    }
+  }
+
+  const formatter = new Intl.DateTimeFormat(locale, options);
+  const hourLetter = /h1[12]/.test(formatter.resolvedOptions().hourCycle ?? '') ? 'h' : 'H';
+  return formatter.formatToParts(PROBE_DATE).map(part => {
+    switch (part.type) {
+      case 'literal':
+        return "'" + part.value.replace(/'/g, "''") + "'";
+      case 'dayPeriod':
+        return 'a';
+      case 'hour':
+        return hourLetter.repeat(part.value.length);
+      case 'day':
+        return 'd'.repeat(part.value.length);
+      case 'minute':
+        return 'm'.repeat(part.value.length);
+      case 'second':
+        return 's'.repeat(part.value.length);
+      default:
+        // Numeric months are probed like the day; names keep the width of the skeleton
+        if (part.type === 'month' && /^\d+$/.test(part.value)) {
+          return 'M'.repeat(part.value.length);
+        }
+
+        return tokens.get(part.type) ?? '';
+    }
+  }).join('');
+}
+
+/**
+ * Formats Bikram Sambat dates with an explicit pattern, e.g. "YYYY/MM/DD" or "yyyy 'साल' MMMM dd 'गते'",
+ * or a CLDR skeleton such as "yMMMMd", for layouts that `Intl.DateTimeFormatOptions` cannot express.
+ * Supports the year, month number and name, day, weekday, era, hour, minute, second and day period.
+ * Accepts `CalendarDate`, `CalendarDateTime` and `ZonedDateTime` values in any calendar, as well as `Date`.
+ */
+export class NepaliDatePatternFormat {
+  private locale: string;
+  private pattern: string;
+  private tokens: PatternToken[];
+  private deva: boolean;
+  private timeZone: string;
+  private calendar: NepaliCalendar;
+
+  constructor(locale: string, options: NepaliDatePatternFormatOptions) {
+    if ((options.pattern === undefined) === (options.skeleton === undefined)) {
+      throw new Error('Exactly one of pattern and skeleton must be given');
+    }
+
+    this.locale = locale;
+    this.pattern = options.pattern ?? skeletonToPattern(locale, options.skeleton!);
+    this.tokens = parsePattern(this.pattern);
+    this.deva = (options.numberingSystem ?? (locale.startsWith('ne') ? 'deva' : 'latn')) === 'deva';
+    this.timeZone = options.timeZone ?? getLocalTimeZone();
+    this.calendar = options.calendar ?? new NepaliCalendar();
+  }
+
+  /** Returns the explicit pattern used for formatting, including the one expanded from a skeleton. */
+  getPattern(): string {
+    return this.pattern;
+  }
+
+  /**
+   * Formats the given value. A `Date` is formatted in the `timeZone` option, and a `ZonedDateTime`
+   * in its own time zone. Time fields of a `CalendarDate` are zero.
+   */
+  format(value: Date | DateValue): string {
+    const date = toCalendar(value instanceof Date ? fromDate(value, this.timeZone) : value, this.calendar);
+    return this.tokens.map(token => this.formatToken(token, date)).join('');
+  }
+
+  private formatToken(token: PatternToken, date: DateValue): string {
+    const {field, length} = token;
+    const isNepali = this.locale.startsWith('ne');
+    const hour = 'hour' in date ? date.hour : 0;
+    switch (field) {
+      case 'literal':
+        return token.value!;
+      case 'year':
+        return this.formatNumber(length === 2 ? date.year % 100 : date.year, length);
+      case 'month':
+        if (length >= 3) {
+          return (isNepali ? NEPALI_MONTH_NAMES : TRANSLITERATED_MONTH_NAMES)[getTextWidth(length)][date.month - 1];
+        }
+
+        return this.formatNumber(date.month, length);
+      case 'day':
+        return this.formatNumber(date.day, length);
+      case 'era':
+        return (isNepali ? NEPALI_ERA_NAMES : TRANSLITERATED_ERA_NAMES)[getTextWidth(length)];
+      case 'hour':
+        return this.formatNumber(hour, length);
+      case 'hour12':
+        return this.formatNumber((hour + 11) % 12 + 1, length);
+      case 'minute':
+        return this.formatNumber('minute' in date ? date.minute : 0, length);
+      case 'second':
+        return this.formatNumber('second' in date ? date.second : 0, length);
+      case 'weekday':
+        return this.formatGregorianPart(date, 'weekday', {weekday: getTextWidth(length)});
+      case 'dayPeriod':
+        return this.formatGregorianPart(date, 'dayPeriod', {hour: 'numeric', hourCycle: 'h12'});
+    }
+  }
+
+  private formatNumber(value: number, minimumLength: number) {
+    const digits = String(value).padStart(minimumLength, '0');
+    return this.deva ? toDevanagariDigits(digits) : digits;
+  }
+
+  /** Formats fields that are the same in every calendar with Intl, e.g. the weekday. */
+  private formatGregorianPart(date: DateValue, type: Intl.DateTimeFormatPartTypes, options: Intl.DateTimeFormatOptions) {
+    const gregorian = toCalendar(toCalendarDate(date), new GregorianCalendar());
+    const formatter = new Intl.DateTimeFormat(this.locale, {...options, timeZone: 'UTC'});
+    const instant = toDate(gregorian, 'UTC').getTime() + ('hour' in date ? date.hour : 0) * 3600000;
+    return formatter.formatToParts(instant).find(part => part.type === type)?.value ?? '';
+  }
+}
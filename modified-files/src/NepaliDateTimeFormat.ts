@@ -1,47 +1,211 @@
-import {AnyCalendarDate} from './types';
-import {gregorianToJulianDay} from './calendars/GregorianCalendar';
+import {AnyCalendarDate, AnyTime, Calendar} from './types';
+import {CalendarDateTimeFormat} from './calendarRegistry';
+import {fromDate, toCalendar, toCalendarDate} from './conversion';
+import {getNepaliLunarDate, getNepaliLunarDateNames} from './NepaliLunarDate';
+import {GregorianCalendar} from './calendars/GregorianCalendar';
 import {NepaliCalendar} from './calendars/NepaliCalendar';
+import {ZonedDateTime} from './CalendarDate';
 
-export class NepaliDateTimeFormat implements Intl.DateTimeFormat {
-  private locale: string;
-  private options: Intl.DateTimeFormatOptions;
-  private calendar: NepaliCalendar;
+export interface NepaliDateTimeFormatOptions extends Intl.DateTimeFormatOptions {
+  /**
+   * Whether to append the lunar month, paksha and tithi prevailing on the date, e.g. "श्रावण शुक्ल पञ्चमी",
+   * as `lunarMonth`, `paksha` and `tithi` parts. Ranges show the lunar date of each end, or once if they share it.
+   */
+  lunar?: boolean
+}
+
+/** Types of the parts appended for the `lunar` option, which are not among the standard part types. */
+export type NepaliLunarPartType = 'lunarMonth' | 'paksha' | 'tithi';
+
+declare global {
+  namespace Intl {
+    // Registers the lunar part types, so that the parts returned by formatToParts and formatRangeToParts can have them
+    interface DateTimeFormatPartTypesRegistry {
+      lunarMonth: any,
+      paksha: any,
+      tithi: any
+    }
+  }
+}
+
+type NumericWidth = 'numeric' | '2-digit';
+type TextWidth = 'long' | 'short' | 'narrow';
+
+/**
+ * A value accepted by `NepaliDateTimeFormat`: an instant as a `Date` or timestamp, or a `CalendarDate`,
+ * `CalendarDateTime` or `ZonedDateTime` in any calendar.
+ */
+export type NepaliDateTimeFormatValue = Date | number | AnyCalendarDate;
+
+type WallClockTime = Pick<AnyTime, 'hour' | 'minute' | 'second' | 'millisecond'>;
+
+// A value prepared for formatting: Intl formats `instant` with `formatter`, and the date parts are replaced
+// with the fields of `nepaliDate`
+interface ResolvedValue {
+  nepaliDate: AnyCalendarDate,
+  time: WallClockTime,
+  instant: Date,
+  formatter: Intl.DateTimeFormat
+}
+
+const MIDNIGHT: WallClockTime = {hour: 0, minute: 0, second: 0, millisecond: 0};
+
+interface FieldWidths {
+  year: NumericWidth,
+  month: NumericWidth | TextWidth,
+  day: NumericWidth,
+  era: TextWidth
+}
+
+// 3 February 2001: every field is distinguishable between its numeric and 2-digit forms
+const PROBE_DATE = Date.UTC(2001, 1, 3, 12);
+
+// Field combinations used to find month and era names in both standalone and format context
+const TEXT_CONTEXTS: Intl.DateTimeFormatOptions[] = [
+  {},
+  {day: 'numeric'},
+  {year: 'numeric', month: 'numeric', day: 'numeric'}
+];
+
+const TEXT_WIDTHS: TextWidth[] = ['long', 'short', 'narrow'];
+
+// The names of the probe date in each width, by locale, numbering system and field, so that the probe
+// formatters are created once rather than for every formatter
+const textWidthNamesCache = new Map<string, Record<TextWidth, string[]>>();
+
+// Nepali month names (for Nepali locale)
+export const NEPALI_MONTH_NAMES = {
+  long: [
+    'बैशाख', 'जेठ', 'असार', 'श्रावण', 'भाद्र', 'आश्विन',
+    'कार्तिक', 'मंसिर', 'पौष', 'माघ', 'फाल्गुन', 'चैत्र'
+  ],
+  short: [
+    'बैशाख', 'जेठ', 'असार', 'श्रावण', 'भाद्र', 'आश्विन',
+    'कार्तिक', 'मंसिर', 'पौष', 'माघ', 'फाल्गुन', 'चैत्र'
+  ],
+  narrow: [
+    'बै', 'जे', 'अ', 'श्रा', 'भा', 'आ',
+    'का', 'मं', 'पौ', 'मा', 'फा', 'चै'
+  ]
+};
+
+// Transliterated month names (for non-Nepali locales)
+export const TRANSLITERATED_MONTH_NAMES = {
+  long: [
+    'Baisakh', 'Jestha', 'Asadh', 'Shrawan', 'Bhadra', 'Ashwin',
+    'Kartik', 'Mangsir', 'Poush', 'Magh', 'Falgun', 'Chaitra'
+  ],
+  short: [
+    'Bai', 'Jes', 'Asa', 'Shr', 'Bha', 'Ash',
+    'Kar', 'Man', 'Pou', 'Mag', 'Fal', 'Cha'
+  ],
+  narrow: [
+    'B', 'J', 'A', 'S', 'B', 'A',
+    'K', 'M', 'P', 'M', 'F', 'C'
+  ]
+};
+
+// Nepali era names
+export const NEPALI_ERA_NAMES = {
+  long: 'बिक्रम सम्बत',
+  short: 'बि.सं.',
+  narrow: 'बि.सं.'
+};
+
+// Transliterated era names
+export const TRANSLITERATED_ERA_NAMES = {
+  long: 'Bikram Sambat',
+  short: 'BS',
+  narrow: 'BS'
+};
+
+/**
+ * Replace ASCII digits with Devanagari digits.
+ */
+export function toDevanagariDigits(value: string): string {
+  return value.replace(/\d/g, digit =>
+    String.fromCharCode(0x0966 + Number.parseInt(digit, 10)) // 0x0966 is the Unicode code point for Devanagari digit 0
+  );
+}
+
+/**
+ * Replace Devanagari digits with ASCII digits.
+ */
+export function fromDevanagariDigits(value: string): string {
+  return value.replace(/[\u0966-\u096F]/g, digit => String(digit.charCodeAt(0) - 0x0966));
+}
+
+export class NepaliDateTimeFormat implements Intl.DateTimeFormat, CalendarDateTimeFormat {
+  /** Tells `DateFormatter` to pass calendar dates as they are, since they are formatted from their fields. */
+  readonly formatsCalendarDates = true;
+  protected locale: string;
+  protected options: Intl.DateTimeFormatOptions;
+  protected calendar: Calendar;
+  private timeZone: string;
   private internalFormatter: Intl.DateTimeFormat;
+  private utcFormatter: Intl.DateTimeFormat;
+  protected fieldWidths: FieldWidths;
+  private lunar: boolean;
 
-  constructor(locale: string, options: Intl.DateTimeFormatOptions = {}) {
+  constructor(locale: string, options: NepaliDateTimeFormatOptions = {}) {
+    const {lunar = false, ...intlOptions} = options;
     this.locale = locale;
-    this.options = {...options, calendar: 'gregory'}; // Use gregory for internal formatting
+    this.lunar = lunar;
+    this.options = {...intlOptions, calendar: 'gregory'}; // Use gregory for internal formatting
 
     // Create a similar formatter without the nepali calendar for fallback formatting
     this.internalFormatter = new Intl.DateTimeFormat(locale, this.options);
 
+    // Resolve the time zone once so that dates are converted in the same zone the time fields are formatted in
+    this.timeZone = this.internalFormatter.resolvedOptions().timeZone;
+
+    // Formatter used for probing the pattern and for range segmentation from wall-clock proxy dates
+    this.utcFormatter = new Intl.DateTimeFormat(locale, {...this.options, timeZone: 'UTC'});
+    this.fieldWidths = this.resolveFieldWidths();
+
     // Initialize the nepali calendar
     this.calendar = new NepaliCalendar();
   }
 
   /**
-   * Convert a JavaScript Date to a Nepali date object.
+   * Resolve a value to its date in the formatter's calendar and an instant for Intl to format the other fields.
+   * Instants, including `ZonedDateTime`s, are formatted in the formatter's time zone. Dates without a time zone
+   * are formatted from their own fields, and the rest of the pattern from the same wall-clock time in UTC, so
+   * that they cannot shift by a day between time zones.
    */
-  private toNepaliDate(date: Date): AnyCalendarDate {
-    const julianDay = gregorianToJulianDay(
-      'AD',
-      date.getFullYear(),
-      date.getMonth() + 1,
-      date.getDate()
-    );
-    return this.calendar.fromJulianDay(julianDay);
+  private resolveValue(value: NepaliDateTimeFormatValue = new Date()): ResolvedValue {
+    if (typeof value === 'number') {
+      value = new Date(value);
+    } else if (value instanceof ZonedDateTime) {
+      value = value.toDate();
+    }
+
+    if (value instanceof Date) {
+      const zonedDate = fromDate(value, this.timeZone);
+      return {
+        nepaliDate: toCalendar(toCalendarDate(zonedDate), this.calendar),
+        time: zonedDate,
+        instant: value,
+        formatter: this.internalFormatter
+      };
+    }
+
+    // Dates already in this calendar are formatted as they are, even when created with other month data
+    const nepaliDate = value.calendar.identifier === this.calendar.identifier ? value : toCalendar(value, this.calendar);
+    const gregorianDate = toCalendar(toCalendarDate(value), new GregorianCalendar());
+    const time = 'hour' in value ? value as AnyCalendarDate & WallClockTime : MIDNIGHT;
+    return {
+      nepaliDate,
+      time,
+      instant: new Date(Date.UTC(gregorianDate.year, gregorianDate.month - 1, gregorianDate.day, time.hour, time.minute, time.second, time.millisecond)),
+      formatter: this.utcFormatter
+    };
   }
 
   /**
    * Format a date according to the locale and options.
    */
-  format(date?: Date | number): string {
-    if (date === undefined) {
-      date = new Date();
-    } else if (typeof date === 'number') {
-      date = new Date(date);
-    }
-
+  format(date?: NepaliDateTimeFormatValue): string {
     // Get parts from internal formatter
     const parts = this.formatToParts(date);
 
@@ -52,28 +216,30 @@ export class NepaliDateTimeFormat implements Intl.DateTimeFormat {
   /**
    * Format a date to parts according to the locale and options.
    */
-  formatToParts(date?: Date | number): Intl.DateTimeFormatPart[] {
-    if (date === undefined) {
-      date = new Date();
-    } else if (typeof date === 'number') {
-      date = new Date(date);
+  formatToParts(date?: NepaliDateTimeFormatValue): Intl.DateTimeFormatPart[] {
+    const resolved = this.resolveValue(date);
+    const parts = this.formatResolvedToParts(resolved);
+    if (this.lunar) {
+      parts.push({type: 'literal', value: ', '}, ...this.formatLunarParts(resolved.nepaliDate));
     }
 
-    const nepaliDate = this.toNepaliDate(date);
+    return parts;
+  }
 
+  private formatResolvedToParts({nepaliDate, instant, formatter}: ResolvedValue): Intl.DateTimeFormatPart[] {
     // Get parts from internal formatter first
-    const parts = this.internalFormatter.formatToParts(date);
+    const parts = formatter.formatToParts(instant);
 
     // Replace year, month, and day values with Nepali equivalents
-    return parts.map(part => {
+    const nepaliParts = parts.map(part => {
       const newPart = {...part};
 
       if (part.type === 'year') {
-        newPart.value = this.formatNepaliValue(nepaliDate.year);
+        newPart.value = this.formatNepaliValue(nepaliDate.year, this.fieldWidths.year);
       } else if (part.type === 'month') {
-        newPart.value = this.formatNepaliMonth(nepaliDate.month, part.value);
+        newPart.value = this.formatNepaliMonth(nepaliDate);
       } else if (part.type === 'day') {
-        newPart.value = this.formatNepaliValue(nepaliDate.day);
+        newPart.value = this.formatNepaliDay(nepaliDate);
       } else if (part.type === 'weekday') {
         // Keep original weekday as days of week align between calendars
       } else if (part.type === 'era') {
@@ -83,20 +249,28 @@ export class NepaliDateTimeFormat implements Intl.DateTimeFormat {
 
       return newPart;
     });
+
+    return nepaliParts;
+  }
+
+  /** Returns the lunar month, paksha and tithi prevailing on a date as parts, for the `lunar` option. */
+  private formatLunarParts(nepaliDate: AnyCalendarDate): Intl.DateTimeFormatPart[] {
+    const names = getNepaliLunarDateNames(getNepaliLunarDate(nepaliDate), this.locale);
+    return [
+      {type: 'lunarMonth', value: names.month},
+      {type: 'literal', value: ' '},
+      {type: 'paksha', value: names.paksha},
+      {type: 'literal', value: ' '},
+      {type: 'tithi', value: names.tithi}
+    ];
   }
 
   /**
    * Format a date range according to the locale and options.
    */
-  formatRange(startDate: Date | number, endDate: Date | number): string {
-    // Convert to Date objects if numbers
-    if (typeof startDate === 'number') {
-      startDate = new Date(startDate);
-    }
-    if (typeof endDate === 'number') {
-      endDate = new Date(endDate);
-    }
-
+  formatRange(startDate: Date | number, endDate: Date | number): string;
+  formatRange(startDate: NepaliDateTimeFormatValue, endDate: NepaliDateTimeFormatValue): string;
+  formatRange(startDate: NepaliDateTimeFormatValue, endDate: NepaliDateTimeFormatValue): string {
     // Get parts from formatRangeToParts
     const parts = this.formatRangeToParts(startDate, endDate);
 
@@ -107,194 +281,213 @@ export class NepaliDateTimeFormat implements Intl.DateTimeFormat {
   /**
    * Format a date range to parts according to the locale and options.
    */
-  formatRangeToParts(startDate: Date | number, endDate: Date | number): Intl.DateTimeRangeFormatPart[] {
-    // Convert to Date objects if numbers
-    if (typeof startDate === 'number') {
-      startDate = new Date(startDate);
+  formatRangeToParts(startDate: Date | number, endDate: Date | number): Intl.DateTimeRangeFormatPart[];
+  formatRangeToParts(startDate: NepaliDateTimeFormatValue, endDate: NepaliDateTimeFormatValue): Intl.DateTimeRangeFormatPart[];
+  formatRangeToParts(startDate: NepaliDateTimeFormatValue, endDate: NepaliDateTimeFormatValue): Intl.DateTimeRangeFormatPart[] {
+    const start = this.resolveValue(startDate);
+    const end = this.resolveValue(endDate);
+
+    // Format both ends with their Nepali values substituted
+    const startParts = this.formatResolvedToParts(start);
+    const endParts = this.formatResolvedToParts(end);
+
+    // Let Intl decide which fields are shared, using a pair of Gregorian dates that differ
+    // in the same largest field as the Nepali dates do, then fill in the actual values
+    const [proxyStartDate, proxyEndDate] = this.getRangeProxyDates(start, end);
+    const rangeParts = this.utcFormatter.formatRangeToParts(proxyStartDate, proxyEndDate);
+
+    const parts = rangeParts.map(part => {
+      const newPart = {...part};
+
+      if (part.type !== 'literal') {
+        // Shared parts are equal in both dates, so take them from the start date
+        const sourceParts = part.source === 'endRange' ? endParts : startParts;
+        const sourcePart = sourceParts.find(p => p.type === part.type);
+        if (sourcePart) {
+          newPart.value = sourcePart.value;
+        }
+      }
+
+      return newPart;
+    });
+
+    if (this.lunar) {
+      parts.push({type: 'literal', value: ', ', source: 'shared'}, ...this.formatLunarRangeParts(start.nepaliDate, end.nepaliDate, rangeParts));
     }
-    if (typeof endDate === 'number') {
-      endDate = new Date(endDate);
+
+    return parts;
+  }
+
+  /**
+   * Returns the lunar parts of a range: once if both dates have the same lunar date, and otherwise for each
+   * date, separated by the range separator of the locale. The lunar dates are several words long, so the
+   * separator is always spaced.
+   */
+  private formatLunarRangeParts(startDate: AnyCalendarDate, endDate: AnyCalendarDate, rangeParts: Intl.DateTimeRangeFormatPart[]): Intl.DateTimeRangeFormatPart[] {
+    const startParts = this.formatLunarParts(startDate);
+    const endParts = this.formatLunarParts(endDate);
+    if (startParts.every((part, index) => part.value === endParts[index].value)) {
+      return startParts.map(part => ({...part, source: 'shared'}));
     }
 
-    // Get Nepali dates
-    const nepaliStartDate = this.toNepaliDate(startDate);
-    const nepaliEndDate = this.toNepaliDate(endDate);
+    const separator = rangeParts[rangeParts.findIndex(part => part.source === 'endRange') - 1];
+    return [
+      ...startParts.map(part => ({...part, source: 'startRange' as const})),
+      {type: 'literal', value: ' ' + (separator?.type === 'literal' ? separator.value.trim() : '–') + ' ', source: 'shared'},
+      ...endParts.map(part => ({...part, source: 'endRange' as const}))
+    ];
+  }
 
-    // Use internal formatter to get range parts
-    const rangeParts = this.internalFormatter.formatRangeToParts(startDate, endDate);
+  /**
+   * Build a pair of UTC dates with the same wall-clock times as the given dates, whose Gregorian
+   * year, month and day differ exactly where the Nepali year, month and day differ.
+   */
+  private getRangeProxyDates(start: ResolvedValue, end: ResolvedValue): [Date, Date] {
+    const nepaliStartDate = start.nepaliDate;
+    const nepaliEndDate = end.nepaliDate;
+
+    // The proxy range starts on 2000-06-10; the end is moved only as far as the Nepali dates differ
+    let endYear = 2000;
+    let endMonth = 6;
+    let endDay = 10;
+    if (nepaliStartDate.year !== nepaliEndDate.year) {
+      endYear++;
+      endMonth++;
+      endDay++;
+    } else if (nepaliStartDate.month !== nepaliEndDate.month) {
+      endMonth++;
+      endDay++;
+    } else if (nepaliStartDate.day !== nepaliEndDate.day) {
+      endDay++;
+    }
 
-    // Replace year, month, and day values with Nepali equivalents
-    return rangeParts.map(part => {
-      const newPart = {...part};
+    const {time: startTime} = start;
+    const {time: endTime} = end;
+    return [
+      new Date(Date.UTC(2000, 5, 10, startTime.hour, startTime.minute, startTime.second, startTime.millisecond)),
+      new Date(Date.UTC(endYear, endMonth - 1, endDay, endTime.hour, endTime.minute, endTime.second, endTime.millisecond))
+    ];
+  }
 
-      if (part.type === 'year') {
-        const nepaliYear = part.source === 'startRange' ? nepaliStartDate.year : nepaliEndDate.year;
-        newPart.value = this.formatNepaliValue(nepaliYear);
-      } else if (part.type === 'month') {
-        const nepaliMonth = part.source === 'startRange' ? nepaliStartDate.month : nepaliEndDate.month;
-        newPart.value = this.formatNepaliMonth(nepaliMonth, part.value);
-      } else if (part.type === 'day') {
-        const nepaliDay = part.source === 'startRange' ? nepaliStartDate.day : nepaliEndDate.day;
-        newPart.value = this.formatNepaliValue(nepaliDay);
-      } else if (part.type === 'era') {
-        // Use appropriate era name based on locale
-        newPart.value = this.locale.startsWith('ne') ? 'बि.सं.' : 'BS'; // Bikram Sambat
+  /**
+   * Determine the width of each date field from the pattern the internal formatter actually uses,
+   * so that dateStyle and timeStyle combinations are sized the same as their Gregorian equivalents.
+   */
+  private resolveFieldWidths(): FieldWidths {
+    const parts = this.utcFormatter.formatToParts(PROBE_DATE);
+    const getValue = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value;
+    const getNumericWidth = (value: string | undefined): NumericWidth => value?.length === 2 ? '2-digit' : 'numeric';
+
+    const month = getValue('month');
+    let monthWidth: FieldWidths['month'];
+    if (month === undefined || /^\p{Nd}+$/u.test(month)) {
+      monthWidth = getNumericWidth(month);
+    } else {
+      monthWidth = this.resolveTextWidth('month', month, this.options.month, 'long');
+    }
+
+    const era = getValue('era');
+
+    return {
+      year: getNumericWidth(getValue('year')),
+      month: monthWidth,
+      day: getNumericWidth(getValue('day')),
+      era: era === undefined ? (this.options.era ?? 'short') : this.resolveTextWidth('era', era, this.options.era, 'short')
+    };
+  }
+
+  /**
+   * Find the name width whose Gregorian rendering, standalone or in format context, matches the probed value.
+   */
+  private resolveTextWidth(type: 'month' | 'era', value: string, requested: string | undefined, fallback: TextWidth): TextWidth {
+    const names = this.getTextWidthNames(type);
+    const matches = TEXT_WIDTHS.filter(width => names[width].includes(value));
+
+    // Several widths can share the same name (e.g. "May"), so prefer the one that was asked for
+    if (requested && matches.includes(requested as TextWidth)) {
+      return requested as TextWidth;
+    }
+
+    return matches[0] ?? fallback;
+  }
+
+  /**
+   * Return the Gregorian renderings of the probe date's month or era in each width and context.
+   */
+  private getTextWidthNames(type: 'month' | 'era'): Record<TextWidth, string[]> {
+    const {numberingSystem} = this.options;
+    const cacheKey = [this.locale, numberingSystem, type].join();
+    let names = textWidthNamesCache.get(cacheKey);
+    if (!names) {
+      names = {long: [], short: [], narrow: []};
+      for (const width of TEXT_WIDTHS) {
+        for (const context of TEXT_CONTEXTS) {
+          const formatter = new Intl.DateTimeFormat(this.locale, {...context, [type]: width, calendar: 'gregory', numberingSystem, timeZone: 'UTC'});
+          const name = formatter.formatToParts(PROBE_DATE).find(part => part.type === type)?.value;
+          if (name !== undefined) {
+            names[width].push(name);
+          }
+        }
       }
 
-      return newPart;
-    });
+      textWidthNamesCache.set(cacheKey, names);
+    }
+
+    return names;
   }
 
   /**
    * Format a numeric value using Nepali/Devanagari digits if the locale requires it.
    */
-  private formatNepaliValue(value: number): string {
+  protected formatNepaliValue(value: number, width: NumericWidth = 'numeric'): string {
+    let digits = value.toString();
+    if (width === '2-digit') {
+      digits = String(value % 100).padStart(2, '0');
+    }
+
     // Check if we should use Devanagari digits based on locale and numberingSystem
     const useDevanagariDigits = this.locale.startsWith('ne') ||
                                 this.options.numberingSystem === 'deva';
 
     if (useDevanagariDigits) {
-      return value.toString().replace(/\d/g, digit =>
-        String.fromCharCode(0x0966 + Number.parseInt(digit, 10)) // 0x0966 is the Unicode code point for Devanagari digit 0
-      );
+      return toDevanagariDigits(digits);
     }
 
-    return value.toString();
+    return digits;
   }
 
   /**
-   * Format a month value according to the format type used in original part.
+   * Format a month value according to the month width used in the pattern.
    */
-  private formatNepaliMonth(month: number, originalFormat: string): string {
-    // Define Nepali month names (for Nepali locale)
-    const nepaliMonths = {
-      long: [
-        'बैशाख', 'जेठ', 'असार', 'श्रावण', 'भाद्र', 'आश्विन',
-        'कार्तिक', 'मंसिर', 'पौष', 'माघ', 'फाल्गुन', 'चैत्र'
-      ],
-      short: [
-        'बैशाख', 'जेठ', 'असार', 'श्रावण', 'भाद्र', 'आश्विन',
-        'कार्तिक', 'मंसिर', 'पौष', 'माघ', 'फाल्गुन', 'चैत्र'
-      ],
-      narrow: [
-        'बै', 'जे', 'अ', 'श्रा', 'भा', 'आ',
-        'का', 'मं', 'पौ', 'मा', 'फा', 'चै'
-      ]
-    };
-
-    // Define transliterated month names (for non-Nepali locales)
-    const transliteratedMonths = {
-      long: [
-        'Baisakh', 'Jestha', 'Asadh', 'Shrawan', 'Bhadra', 'Ashwin',
-        'Kartik', 'Mangsir', 'Poush', 'Magh', 'Falgun', 'Chaitra'
-      ],
-      short: [
-        'Bai', 'Jes', 'Asa', 'Shr', 'Bha', 'Ash',
-        'Kar', 'Man', 'Pou', 'Mag', 'Fal', 'Cha'
-      ],
-      narrow: [
-        'B', 'J', 'A', 'S', 'B', 'A',
-        'K', 'M', 'P', 'M', 'F', 'C'
-      ]
-    };
+  protected formatNepaliMonth(date: AnyCalendarDate): string {
+    const month = date.month;
 
     // Choose the appropriate month names based on locale
-    const monthNames = this.locale.startsWith('ne') ? nepaliMonths : transliteratedMonths;
-
-    if (/^\d+$/.test(originalFormat)) {
-      let formattedMonth = this.formatNepaliValue(month);
-      if (originalFormat.length === 2) {
-        formattedMonth = formattedMonth.padStart(2, this.formatNepaliValue(0).charAt(0));
-      }
-      return formattedMonth;
-    }
+    const monthNames = this.locale.startsWith('ne') ? NEPALI_MONTH_NAMES : TRANSLITERATED_MONTH_NAMES;
 
-    // Determine the format type based on both month and dateStyle options
-    let formatType: 'numeric' | '2-digit' | 'narrow' | 'short' | 'long';
-
-    if (this.options.month) {
-      formatType = this.options.month;
-    } else if (this.options.dateStyle) {
-      // Map dateStyle to appropriate month format
-      switch (this.options.dateStyle) {
-        case 'full':
-        case 'long':
-          formatType = 'long';
-          break;
-        case 'medium':
-          formatType = 'short';
-          break;
-        case 'short':
-          formatType = 'numeric';
-          break;
-        default:
-          formatType = 'long';
-      }
-    } else {
-      // Default to long format if no options specified
-      formatType = 'long';
-    }
-
-    // Format the month according to the determined format type
+    // The names do not change between standalone and format context, so only the width matters
+    const formatType = this.fieldWidths.month;
     switch (formatType) {
       case 'numeric':
-        return this.formatNepaliValue(month);
       case '2-digit':
-        return this.formatNepaliValue(month).padStart(2, this.formatNepaliValue(0).charAt(0));
-      case 'narrow':
-        return monthNames.narrow[month - 1];
-      case 'short':
-        return monthNames.short[month - 1];
-      case 'long':
-        return monthNames.long[month - 1];
+        return this.formatNepaliValue(month, formatType);
+      default:
+        return monthNames[formatType][month - 1];
     }
   }
 
-  private formatNepaliEra(): string {
-    // Define Nepali era names
-    const nepaliEra = {
-      long: 'बिक्रम सम्बत',
-      short: 'बि.सं.',
-      narrow: 'बि.सं.'
-    };
-
-    // Define transliterated era names
-    const transliteratedEra = {
-      long: 'Bikram Sambat',
-      short: 'BS',
-      narrow: 'BS'
-    };
+  /**
+   * Format a day value according to the day width used in the pattern.
+   */
+  protected formatNepaliDay(date: AnyCalendarDate): string {
+    return this.formatNepaliValue(date.day, this.fieldWidths.day);
+  }
 
+  protected formatNepaliEra(): string {
     // Choose the appropriate era names based on locale
-    const eraNames = this.locale.startsWith('ne') ? nepaliEra : transliteratedEra;
-
-    // Determine the format type based on era option
-    let formatType: 'long' | 'short' | 'narrow';
-
-    if (this.options.era) {
-      formatType = this.options.era;
-    } else if (this.options.dateStyle) {
-      // Map dateStyle to appropriate era format
-      switch (this.options.dateStyle) {
-        case 'full':
-        case 'long':
-          formatType = 'long';
-          break;
-        case 'medium':
-          formatType = 'short';
-          break;
-        case 'short':
-          formatType = 'narrow';
-          break;
-        default:
-          formatType = 'short';
-      }
-    } else {
-      // Default to short format if no options specified
-      formatType = 'short';
-    }
+    const eraNames = this.locale.startsWith('ne') ? NEPALI_ERA_NAMES : TRANSLITERATED_ERA_NAMES;
 
-    return eraNames[formatType];
+    return eraNames[this.fieldWidths.era];
   }
 
   /**
@@ -304,7 +497,7 @@ export class NepaliDateTimeFormat implements Intl.DateTimeFormat {
     const resolved = this.internalFormatter.resolvedOptions();
 
     // Override calendar and numberingSystem
-    resolved.calendar = 'nepali';
+    resolved.calendar = this.calendar.identifier;
 
     // Use Devanagari numbering system for Nepali locale
     if (this.locale.startsWith('ne')) {
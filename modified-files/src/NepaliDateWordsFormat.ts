@@ -0,0 +1,159 @@
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
+import {GregorianCalendar} from './calendars/GregorianCalendar';
+import {NEPALI_ERA_NAMES, NEPALI_MONTH_NAMES, TRANSLITERATED_ERA_NAMES, TRANSLITERATED_MONTH_NAMES} from './NepaliDateTimeFormat';
+import {NepaliCalendar} from './calendars/NepaliCalendar';
+import {toCalendar, toCalendarDate, toDate} from './conversion';
+
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+
+export interface NepaliDateWordsFormatOptions {
+  /** Whether to include the day of the week, e.g. "बिहीबार" or "Thursday". */
+  weekday?: boolean,
+  /** Whether to include the era, e.g. "बिक्रम सम्बत" or "Bikram Sambat". */
+  era?: boolean
+}
+
+// Nepali numbers from zero to ninety-nine, which do not follow a regular pattern
+const NEPALI_NUMBER_WORDS = [
+  'शून्य', 'एक', 'दुई', 'तीन', 'चार', 'पाँच', 'छ', 'सात', 'आठ', 'नौ',
+  'दश', 'एघार', 'बाह्र', 'तेह्र', 'चौध', 'पन्ध्र', 'सोह्र', 'सत्र', 'अठार', 'उन्नाइस',
+  'बीस', 'एक्काइस', 'बाइस', 'तेइस', 'चौबीस', 'पच्चीस', 'छब्बीस', 'सत्ताइस', 'अठ्ठाइस', 'उनन्तीस',
+  'तीस', 'एकतीस', 'बत्तीस', 'तेत्तीस', 'चौंतीस', 'पैंतीस', 'छत्तीस', 'सैंतीस', 'अठतीस', 'उनन्चालीस',
+  'चालीस', 'एकचालीस', 'बयालीस', 'त्रिचालीस', 'चवालीस', 'पैंतालीस', 'छयालीस', 'सतचालीस', 'अठचालीस', 'उनन्चास',
+  'पचास', 'एकाउन्न', 'बाउन्न', 'त्रिपन्न', 'चवन्न', 'पचपन्न', 'छपन्न', 'सन्ताउन्न', 'अन्ठाउन्न', 'उनन्साठी',
+  'साठी', 'एकसट्ठी', 'बयसट्ठी', 'त्रिसट्ठी', 'चौंसट्ठी', 'पैंसट्ठी', 'छयसट्ठी', 'सतसट्ठी', 'अठसट्ठी', 'उनन्सत्तरी',
+  'सत्तरी', 'एकहत्तर', 'बहत्तर', 'त्रिहत्तर', 'चौहत्तर', 'पचहत्तर', 'छयहत्तर', 'सतहत्तर', 'अठहत्तर', 'उनासी',
+  'असी', 'एकासी', 'बयासी', 'त्रियासी', 'चौरासी', 'पचासी', 'छयासी', 'सतासी', 'अठासी', 'उनान्नब्बे',
+  'नब्बे', 'एकान्नब्बे', 'बयानब्बे', 'त्रियानब्बे', 'चौरानब्बे', 'पन्चानब्बे', 'छयानब्बे', 'सन्तानब्बे', 'अन्ठानब्बे', 'उनान्सय'
+];
+
+const ENGLISH_NUMBER_WORDS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+
+const ENGLISH_TENS_WORDS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const ENGLISH_ORDINAL_WORDS = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth'
+};
+
+const NEPALI_DAY_SUFFIX = 'गते';
+const NEPALI_YEAR_SUFFIX = 'साल';
+
+/** Spells out a number from 0 to 9999 in Nepali, e.g. "दुई हजार एकासी" for 2081. */
+function toNepaliWords(value: number): string {
+  const words: string[] = [];
+  const thousands = Math.floor(value / 1000);
+  const hundreds = Math.floor(value / 100) % 10;
+  const rest = value % 100;
+  if (thousands > 0) {
+    words.push(NEPALI_NUMBER_WORDS[thousands], 'हजार');
+  }
+
+  if (hundreds > 0) {
+    words.push(NEPALI_NUMBER_WORDS[hundreds], 'सय');
+  }
+
+  if (rest > 0 || words.length === 0) {
+    words.push(NEPALI_NUMBER_WORDS[rest]);
+  }
+
+  return words.join(' ');
+}
+
+/** Spells out a number from 0 to 9999 in English, e.g. "two thousand eighty-one" for 2081. */
+function toEnglishWords(value: number): string {
+  const words: string[] = [];
+  const thousands = Math.floor(value / 1000);
+  const hundreds = Math.floor(value / 100) % 10;
+  const rest = value % 100;
+  if (thousands > 0) {
+    words.push(ENGLISH_NUMBER_WORDS[thousands], 'thousand');
+  }
+
+  if (hundreds > 0) {
+    words.push(ENGLISH_NUMBER_WORDS[hundreds], 'hundred');
+  }
+
+  if (rest >= 20) {
+    const ones = rest % 10;
+    words.push(ENGLISH_TENS_WORDS[Math.floor(rest / 10)] + (ones > 0 ? '-' + ENGLISH_NUMBER_WORDS[ones] : ''));
+  } else if (rest > 0 || words.length === 0) {
+    words.push(ENGLISH_NUMBER_WORDS[rest]);
+  }
+
+  return words.join(' ');
+}
+
+/** Spells out an ordinal number in English, e.g. "twenty-first" for 21. */
+function toEnglishOrdinalWords(value: number): string {
+  return toEnglishWords(value).replace(/[a-z]+$/, word => {
+    if (word in ENGLISH_ORDINAL_WORDS) {
+      return ENGLISH_ORDINAL_WORDS[word as keyof typeof ENGLISH_ORDINAL_WORDS];
+    }
+
+    // twenty becomes twentieth
+    return word.endsWith('y') ? word.slice(0, -1) + 'ieth' : word + 'th';
+  });
+}
+
+/**
+ * Formats Bikram Sambat dates in words, as written on cheques, contracts and court documents, e.g.
+ * "दुई हजार एकासी साल श्रावण पाँच गते" in Nepali locales or "Two thousand eighty-one, Shrawan fifth"
+ * in others. Month and era names come from the tables used by `NepaliDateTimeFormat`.
+ */
+export class NepaliDateWordsFormat {
+  private locale: string;
+  private isNepali: boolean;
+  private options: NepaliDateWordsFormatOptions;
+  private calendar: NepaliCalendar;
+
+  constructor(locale: string, options: NepaliDateWordsFormatOptions = {}, calendar: NepaliCalendar = new NepaliCalendar()) {
+    this.locale = locale;
+    this.isNepali = locale.startsWith('ne');
+    this.options = options;
+    this.calendar = calendar;
+  }
+
+  /**
+   * Formats the date in words. Dates in other calendars are converted to the `NepaliCalendar` first,
+   * and the wall-clock date is used for `ZonedDateTime`s.
+   */
+  format(date: DateValue): string {
+    const nepali = toCalendar(date, this.calendar);
+    const weekday = this.options.weekday ? this.formatWeekday(nepali) : null;
+    const era = this.options.era ? (this.isNepali ? NEPALI_ERA_NAMES : TRANSLITERATED_ERA_NAMES).long : null;
+
+    if (this.isNepali) {
+      // e.g. बिक्रम सम्बत दुई हजार एकासी साल श्रावण पाँच गते बिहीबार
+      return [
+        era,
+        toNepaliWords(nepali.year),
+        NEPALI_YEAR_SUFFIX,
+        NEPALI_MONTH_NAMES.long[nepali.month - 1],
+        toNepaliWords(nepali.day),
+        NEPALI_DAY_SUFFIX,
+        weekday
+      ].filter(Boolean).join(' ');
+    }
+
+    // e.g. Thursday, Bikram Sambat two thousand eighty-one, Shrawan fifth
+    const year = (era ? era + ' ' : '') + toEnglishWords(nepali.year);
+    const monthDay = TRANSLITERATED_MONTH_NAMES.long[nepali.month - 1] + ' ' + toEnglishOrdinalWords(nepali.day);
+    const result = [weekday, year, monthDay].filter(Boolean).join(', ');
+    return result.charAt(0).toUpperCase() + result.slice(1);
+  }
+
+  private formatWeekday(date: DateValue) {
+    const gregorian = toCalendar(toCalendarDate(date), new GregorianCalendar());
+    const formatter = new Intl.DateTimeFormat(this.locale, {weekday: 'long', timeZone: 'UTC'});
+    return formatter.format(toDate(gregorian, 'UTC'));
+  }
+}
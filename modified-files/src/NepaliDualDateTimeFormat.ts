@@ -0,0 +1,161 @@
+import {AnyCalendarDate, AnyTime} from './types';
+import {CalendarDateTimeFormat} from './calendarRegistry';
+import {NepaliDateTimeFormat, NepaliDateTimeFormatOptions, NepaliDateTimeFormatValue} from './NepaliDateTimeFormat';
+import {toCalendarDate, toCalendarDateTime, toDate} from './conversion';
+import {ZonedDateTime} from './CalendarDate';
+
+type DualCalendar = 'nepali' | 'gregory';
+
+export interface NepaliDualDateTimeFormatOptions extends NepaliDateTimeFormatOptions {
+  /**
+   * The calendar shown first.
+   * @default 'nepali'
+   */
+  primary?: DualCalendar,
+  /**
+   * How the second rendering is laid out: "A (B)", "A / B", or on the next line.
+   * @default 'parentheses'
+   */
+  layout?: 'parentheses' | 'slash' | 'lines',
+  /** The locale of the Gregorian rendering, e.g. `en-GB` next to Nepali. Defaults to the formatter's locale. */
+  gregorianLocale?: string,
+  /** The options of the Gregorian rendering. Defaults to the same options as the Bikram Sambat rendering. */
+  gregorianOptions?: Intl.DateTimeFormatOptions,
+  /**
+   * Whether to wrap each rendering in Unicode directional isolates, so that renderings in left-to-right
+   * and right-to-left scripts are not reordered into each other.
+   * @default false
+   */
+  isolate?: boolean
+}
+
+/** A part of a dual-calendar date, tagged with the calendar it belongs to. Layout literals have no calendar. */
+export interface NepaliDualDateTimeFormatPart extends Intl.DateTimeFormatPart {
+  calendar?: DualCalendar
+}
+
+export interface NepaliDualDateTimeRangeFormatPart extends Intl.DateTimeRangeFormatPart {
+  calendar?: DualCalendar
+}
+
+const LAYOUT_LITERALS = {
+  parentheses: [' (', ')'],
+  slash: [' / ', ''],
+  lines: ['\n', '']
+};
+
+const FIRST_STRONG_ISOLATE = '\u2068';
+const POP_DIRECTIONAL_ISOLATE = '\u2069';
+
+/**
+ * Formats dates in Bikram Sambat with their Gregorian equivalent, e.g. "२०८१ श्रावण ५ (21 July 2024)",
+ * or ranges such as "Shrawan 2081 (Jul – Aug 2024)", where each calendar collapses the range on its own.
+ * `formatToParts` and `formatRangeToParts` tag each part with the calendar it belongs to.
+ *
+ * To use it with `DateFormatter`, register it as the formatter of the `nepali` calendar with `registerCalendar`.
+ */
+export class NepaliDualDateTimeFormat implements Intl.DateTimeFormat, CalendarDateTimeFormat {
+  /** Lets `DateFormatter` pass calendar dates through, so both renderings are made from the same value. */
+  readonly formatsCalendarDates = true;
+  private nepaliFormatter: NepaliDateTimeFormat;
+  private gregorianFormatter: Intl.DateTimeFormat;
+  private timeZone: string;
+  private primary: DualCalendar;
+  private layout: [string, string];
+  private isolate: boolean;
+
+  constructor(locale: string, options: NepaliDualDateTimeFormatOptions = {}) {
+    const {primary = 'nepali', layout = 'parentheses', gregorianLocale = locale, gregorianOptions, isolate = false, ...nepaliOptions} = options;
+    this.nepaliFormatter = new NepaliDateTimeFormat(locale, nepaliOptions);
+    this.timeZone = this.nepaliFormatter.resolvedOptions().timeZone;
+
+    // Intl ignores the lunar option, so the Bikram Sambat options can be used as they are. Both renderings
+    // show the same instant, so the Gregorian one is in the time zone of the Bikram Sambat one unless set
+    this.gregorianFormatter = new Intl.DateTimeFormat(gregorianLocale, {
+      timeZone: this.timeZone,
+      ...(gregorianOptions ?? nepaliOptions),
+      calendar: 'gregory'
+    });
+    this.primary = primary;
+    this.layout = LAYOUT_LITERALS[layout] as [string, string];
+    this.isolate = isolate;
+  }
+
+  /**
+   * Formats a date in both calendars. Like `NepaliDateTimeFormat`, it accepts `CalendarDate`, `CalendarDateTime`
+   * and `ZonedDateTime` values as well as instants.
+   */
+  format(date?: NepaliDateTimeFormatValue): string {
+    return this.formatToParts(date).map(part => part.value).join('');
+  }
+
+  /** Formats a date in both calendars to parts tagged with their calendar. */
+  formatToParts(date: NepaliDateTimeFormatValue = new Date()): NepaliDualDateTimeFormatPart[] {
+    return this.combine(
+      this.nepaliFormatter.formatToParts(date),
+      this.gregorianFormatter.formatToParts(this.toInstant(date))
+    );
+  }
+
+  /** Formats a date range in both calendars, collapsing shared fields in each. */
+  formatRange(startDate: Date | number, endDate: Date | number): string;
+  formatRange(startDate: NepaliDateTimeFormatValue, endDate: NepaliDateTimeFormatValue): string;
+  formatRange(startDate: NepaliDateTimeFormatValue, endDate: NepaliDateTimeFormatValue): string {
+    return this.formatRangeToParts(startDate, endDate).map(part => part.value).join('');
+  }
+
+  /** Formats a date range in both calendars to parts tagged with their calendar and range source. */
+  formatRangeToParts(startDate: Date | number, endDate: Date | number): NepaliDualDateTimeRangeFormatPart[];
+  formatRangeToParts(startDate: NepaliDateTimeFormatValue, endDate: NepaliDateTimeFormatValue): NepaliDualDateTimeRangeFormatPart[];
+  formatRangeToParts(startDate: NepaliDateTimeFormatValue, endDate: NepaliDateTimeFormatValue): NepaliDualDateTimeRangeFormatPart[] {
+    return this.combine<Intl.DateTimeRangeFormatPart>(
+      this.nepaliFormatter.formatRangeToParts(startDate, endDate),
+      this.gregorianFormatter.formatRangeToParts(this.toInstant(startDate), this.toInstant(endDate)),
+      {source: 'shared'}
+    );
+  }
+
+  /** Returns the resolved options of the Bikram Sambat rendering. */
+  resolvedOptions(): Intl.ResolvedDateTimeFormatOptions {
+    return this.nepaliFormatter.resolvedOptions();
+  }
+
+  /**
+   * Converts a value to the instant shown by the Gregorian rendering. Dates and date times without a time zone
+   * are taken in the formatter's time zone, so that both renderings show the same wall-clock date.
+   */
+  private toInstant(value: NepaliDateTimeFormatValue): Date | number {
+    if (typeof value === 'number' || value instanceof Date) {
+      return value;
+    }
+
+    if (value instanceof ZonedDateTime) {
+      return value.toDate();
+    }
+
+    const time = 'hour' in value ? value as AnyCalendarDate & AnyTime : undefined;
+    return toDate(toCalendarDateTime(toCalendarDate(value), time), this.timeZone);
+  }
+
+  private combine<T extends Intl.DateTimeFormatPart>(nepaliParts: T[], gregorianParts: T[], literalFields?: Partial<T>): Array<T & {calendar?: DualCalendar}> {
+    const literal = (value: string) => ({...literalFields, type: 'literal', value}) as T;
+    const tag = (parts: T[], calendar: DualCalendar) => {
+      const tagged = parts.map(part => ({...part, calendar}));
+      return this.isolate
+        ? [{...literal(FIRST_STRONG_ISOLATE), calendar}, ...tagged, {...literal(POP_DIRECTIONAL_ISOLATE), calendar}]
+        : tagged;
+    };
+
+    const nepali = tag(nepaliParts, 'nepali');
+    const gregorian = tag(gregorianParts, 'gregory');
+    const [first, second] = this.primary === 'nepali' ? [nepali, gregorian] : [gregorian, nepali];
+    const [open, close] = this.layout;
+
+    return [
+      ...first,
+      literal(open),
+      ...second,
+      ...(close ? [literal(close)] : [])
+    ];
+  }
+}
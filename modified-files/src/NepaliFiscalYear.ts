@@ -0,0 +1,161 @@
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
+import {endOfMonth, startOfMonth} from './queries';
+import {GregorianCalendar} from './calendars/GregorianCalendar';
+import {NepaliCalendar, NepaliCalendarRangeError} from './calendars/NepaliCalendar';
+import {toCalendar, toZoned} from './conversion';
+import {toDevanagariDigits} from './NepaliDateTimeFormat';
+
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+
+// The fiscal year starts on 1 Shrawan
+const FISCAL_YEAR_START_MONTH = 4;
+
+/**
+ * A fiscal year, or a quarter, trimester (chaumasik) or month of it. Quarters, trimesters and months
+ * are numbered from the start of the fiscal year, e.g. month 1 is Shrawan and trimester 3 is Chaitra to Ashadh.
+ * At most one of `quarter`, `trimester` and `month` may be given.
+ */
+export interface NepaliFiscalPeriod {
+  /** The Bikram Sambat year in which the fiscal year starts, e.g. 2081 for 2081/82. */
+  fiscalYear: number,
+  quarter?: number,
+  trimester?: number,
+  month?: number
+}
+
+function toNepali(date: DateValue): DateValue {
+  return date.calendar instanceof NepaliCalendar ? date : toCalendar(date, new NepaliCalendar());
+}
+
+/** Returns the index of the Bikram Sambat month within the fiscal year, from 0 for Shrawan to 11 for Ashadh. */
+function getFiscalMonthIndex(month: number) {
+  return (month - FISCAL_YEAR_START_MONTH + 12) % 12;
+}
+
+/**
+ * Returns the fiscal year of the given date, as the Bikram Sambat year in which it starts.
+ * Dates in other calendars are converted to the `NepaliCalendar` first.
+ */
+export function getNepaliFiscalYear(date: DateValue): number {
+  const nepali = toNepali(date);
+  return nepali.month >= FISCAL_YEAR_START_MONTH ? nepali.year : nepali.year - 1;
+}
+
+/** Returns the month of the fiscal year for the given date, from 1 for Shrawan to 12 for Ashadh. */
+export function getNepaliFiscalMonth(date: DateValue): number {
+  return getFiscalMonthIndex(toNepali(date).month) + 1;
+}
+
+/** Returns the quarter of the fiscal year for the given date, from 1 to 4. */
+export function getNepaliFiscalQuarter(date: DateValue): number {
+  return Math.floor(getFiscalMonthIndex(toNepali(date).month) / 3) + 1;
+}
+
+/** Returns the trimester (chaumasik) of the fiscal year for the given date, from 1 to 3. */
+export function getNepaliFiscalTrimester(date: DateValue): number {
+  return Math.floor(getFiscalMonthIndex(toNepali(date).month) / 4) + 1;
+}
+
+/**
+ * Returns the first day of the fiscal year for the given date, in the `NepaliCalendar`. For the fiscal year
+ * that starts before the calendar's supported range, the first supported day is returned.
+ */
+export function startOfNepaliFiscalYear(date: ZonedDateTime): ZonedDateTime;
+export function startOfNepaliFiscalYear(date: CalendarDateTime): CalendarDateTime;
+export function startOfNepaliFiscalYear(date: CalendarDate): CalendarDate;
+export function startOfNepaliFiscalYear(date: DateValue): DateValue;
+export function startOfNepaliFiscalYear(date: DateValue): DateValue {
+  const nepali = toNepali(date);
+  const {start} = (nepali.calendar as NepaliCalendar).getSupportedRange();
+  if (getNepaliFiscalYear(nepali) < start.year) {
+    return startOfMonth(nepali.set({month: 1}));
+  }
+
+  return startOfMonth(nepali.subtract({months: getFiscalMonthIndex(nepali.month)}));
+}
+
+/**
+ * Returns the last day of the fiscal year for the given date, in the `NepaliCalendar`. For the fiscal year
+ * that ends after the calendar's supported range, the last supported day is returned.
+ */
+export function endOfNepaliFiscalYear(date: ZonedDateTime): ZonedDateTime;
+export function endOfNepaliFiscalYear(date: CalendarDateTime): CalendarDateTime;
+export function endOfNepaliFiscalYear(date: CalendarDate): CalendarDate;
+export function endOfNepaliFiscalYear(date: DateValue): DateValue;
+export function endOfNepaliFiscalYear(date: DateValue): DateValue {
+  const nepali = toNepali(date);
+  const {end} = (nepali.calendar as NepaliCalendar).getSupportedRange();
+  if (getNepaliFiscalYear(nepali) >= end.year) {
+    return endOfMonth(nepali.set({month: 12}));
+  }
+
+  return endOfMonth(nepali.add({months: 11 - getFiscalMonthIndex(nepali.month)}));
+}
+
+/**
+ * Formats a fiscal year label such as "2081/82", with Devanagari digits ("२०८१/८२") for Nepali locales
+ * or when the `deva` numbering system is requested.
+ */
+export function formatNepaliFiscalYear(fiscalYear: number, locale: string, numberingSystem?: string): string {
+  const label = fiscalYear + '/' + String((fiscalYear + 1) % 100).padStart(2, '0');
+  return locale.startsWith('ne') || numberingSystem === 'deva' ? toDevanagariDigits(label) : label;
+}
+
+/**
+ * Returns the range of instants covered by a fiscal period in the given time zone, as Gregorian `ZonedDateTime`s.
+ * `start` is midnight at the beginning of the period's first day and `end` is midnight after its last day,
+ * so the range is exclusive of `end`. Throws a `NepaliCalendarRangeError` if the period is not entirely within
+ * the calendar's supported range, e.g. for the fiscal year 2099/00 when the data ends in 2099.
+ */
+export function getNepaliFiscalPeriodRange(period: NepaliFiscalPeriod, timeZone: string, calendar: NepaliCalendar = new NepaliCalendar()): {start: ZonedDateTime, end: ZonedDateTime} {
+  const {fiscalYear, quarter, trimester, month} = period;
+  const specified = [quarter, trimester, month].filter(value => value !== undefined);
+  if (specified.length > 1) {
+    throw new Error('Only one of quarter, trimester and month may be given');
+  }
+
+  let firstMonth = 0;
+  let months = 12;
+  if (quarter !== undefined) {
+    checkPeriodIndex('quarter', quarter, 4);
+    firstMonth = (quarter - 1) * 3;
+    months = 3;
+  } else if (trimester !== undefined) {
+    checkPeriodIndex('trimester', trimester, 3);
+    firstMonth = (trimester - 1) * 4;
+    months = 4;
+  } else if (month !== undefined) {
+    checkPeriodIndex('month', month, 12);
+    firstMonth = month - 1;
+    months = 1;
+  }
+
+  // The end is computed from the period's last day, so that periods ending with the supported range work
+  const first = getFiscalMonth(fiscalYear, firstMonth);
+  const last = getFiscalMonth(fiscalYear, firstMonth + months - 1);
+  const supported = calendar.getSupportedRange();
+  if (first.year < supported.start.year || last.year > supported.end.year) {
+    throw new NepaliCalendarRangeError('Fiscal period outside supported range: ' + formatNepaliFiscalYear(fiscalYear, 'en'), fiscalYear, supported.start, supported.end);
+  }
+
+  const start = new CalendarDate(calendar, first.year, first.month, 1);
+  const lastDay = endOfMonth(new CalendarDate(calendar, last.year, last.month, 1));
+  const gregorian = new GregorianCalendar();
+
+  return {
+    start: toZoned(toCalendar(start, gregorian), timeZone),
+    end: toZoned(toCalendar(lastDay, gregorian).add({days: 1}), timeZone)
+  };
+}
+
+/** Returns the Bikram Sambat year and month of a month of the fiscal year, numbered from 0 for Shrawan. */
+function getFiscalMonth(fiscalYear: number, index: number) {
+  const month = FISCAL_YEAR_START_MONTH - 1 + index;
+  return {year: fiscalYear + Math.floor(month / 12), month: month % 12 + 1};
+}
+
+function checkPeriodIndex(field: string, value: number, max: number) {
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    throw new Error('Invalid fiscal ' + field + ': ' + value);
+  }
+}
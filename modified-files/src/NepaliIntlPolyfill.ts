@@ -0,0 +1,105 @@
+import {getLocaleCalendar, getRegisteredCalendar} from './calendarRegistry';
+
+type DateLocaleMethod = 'toLocaleString' | 'toLocaleDateString' | 'toLocaleTimeString';
+
+type DateTimeField = keyof Intl.DateTimeFormatOptions;
+
+const DATE_FIELDS: DateTimeField[] = ['weekday', 'year', 'month', 'day'];
+const TIME_FIELDS: DateTimeField[] = ['dayPeriod', 'hour', 'minute', 'second', 'fractionalSecondDigits'];
+
+// The fields each Date method formats when none of the required fields or styles are given, as in ECMA-402
+const DATE_METHOD_DEFAULTS: Record<DateLocaleMethod, {required: DateTimeField[], defaults: Intl.DateTimeFormatOptions}> = {
+  toLocaleString: {
+    required: [...DATE_FIELDS, ...TIME_FIELDS],
+    defaults: {year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'}
+  },
+  toLocaleDateString: {
+    required: DATE_FIELDS,
+    defaults: {year: 'numeric', month: 'numeric', day: 'numeric'}
+  },
+  toLocaleTimeString: {
+    required: TIME_FIELDS,
+    defaults: {hour: 'numeric', minute: 'numeric', second: 'numeric'}
+  }
+};
+
+let originals: {
+  DateTimeFormat: Intl.DateTimeFormatConstructor,
+  dateMethods: Record<DateLocaleMethod, (locales?: string | string[], options?: Intl.DateTimeFormatOptions) => string>
+} | null = null;
+
+/**
+ * Returns a formatter for a calendar registered with a formatter factory, e.g. `nepali`, or null if
+ * the locale and options request any other calendar.
+ */
+function createRegisteredFormatter(locales: string | string[] | undefined, options: Intl.DateTimeFormatOptions | undefined, DateTimeFormat: Intl.DateTimeFormatConstructor) {
+  let locale = Array.isArray(locales) ? locales[0] : locales;
+  let calendar = options?.calendar || (locale ? getLocaleCalendar(locale) : null);
+  let registration = calendar ? getRegisteredCalendar(calendar)?.registration : null;
+  if (!registration?.createDateTimeFormat) {
+    return null;
+  }
+
+  return registration.createDateTimeFormat(locale ?? new DateTimeFormat().resolvedOptions().locale, options ?? {});
+}
+
+/**
+ * Makes the global `Intl.DateTimeFormat` constructor and the `toLocaleString`, `toLocaleDateString` and
+ * `toLocaleTimeString` methods of `Date` honor the `nepali` calendar, from either the `calendar` option
+ * or a `-u-ca-nepali` locale, so third-party code formats Bikram Sambat dates like `DateFormatter` does.
+ * The same applies to other calendars registered with a formatter factory, such as `newar`. All other
+ * calendars are passed through to the original implementations unchanged.
+ *
+ * Formatters created for these calendars are not instances of `Intl.DateTimeFormat`. Installing more than
+ * once has no effect, and `uninstallNepaliIntlPolyfill` restores the originals.
+ */
+export function installNepaliIntlPolyfill(): void {
+  if (originals) {
+    return;
+  }
+
+  let OriginalDateTimeFormat = Intl.DateTimeFormat;
+  let dateMethods = {
+    toLocaleString: Date.prototype.toLocaleString,
+    toLocaleDateString: Date.prototype.toLocaleDateString,
+    toLocaleTimeString: Date.prototype.toLocaleTimeString
+  };
+  originals = {DateTimeFormat: OriginalDateTimeFormat, dateMethods};
+
+  // Like the original, the constructor may be called with or without `new`
+  function DateTimeFormat(locales?: string | string[], options?: Intl.DateTimeFormatOptions) {
+    return createRegisteredFormatter(locales, options, OriginalDateTimeFormat) ?? new OriginalDateTimeFormat(locales, options);
+  }
+
+  DateTimeFormat.prototype = OriginalDateTimeFormat.prototype;
+  DateTimeFormat.supportedLocalesOf = OriginalDateTimeFormat.supportedLocalesOf;
+  Intl.DateTimeFormat = DateTimeFormat as Intl.DateTimeFormatConstructor;
+
+  for (let method of Object.keys(dateMethods) as DateLocaleMethod[]) {
+    let original = dateMethods[method];
+    let {required, defaults} = DATE_METHOD_DEFAULTS[method];
+    Date.prototype[method] = function (this: Date, locales?: string | string[], options?: Intl.DateTimeFormatOptions) {
+      if (isNaN(this.getTime())) {
+        return original.call(this, locales, options);
+      }
+
+      let hasFields = options && (options.dateStyle || options.timeStyle || required.some(field => options[field] !== undefined));
+      let formatter = createRegisteredFormatter(locales, hasFields ? options : {...defaults, ...options}, OriginalDateTimeFormat);
+      return formatter ? formatter.format(this) : original.call(this, locales, options);
+    };
+  }
+}
+
+/** Restores the global `Intl.DateTimeFormat` and `Date` methods replaced by `installNepaliIntlPolyfill`. */
+export function uninstallNepaliIntlPolyfill(): void {
+  if (!originals) {
+    return;
+  }
+
+  Intl.DateTimeFormat = originals.DateTimeFormat;
+  for (let method of Object.keys(originals.dateMethods) as DateLocaleMethod[]) {
+    Date.prototype[method] = originals.dateMethods[method];
+  }
+
+  originals = null;
+}
@@ -0,0 +1,100 @@
+import {AnyCalendarDate} from './types';
+import {
+  getLunarMonthAtNewMoon,
+  getLunarPhase,
+  getNewMoonAfter,
+  getNewMoonBefore,
+  getSunrise,
+  KATHMANDU_LATITUDE,
+  KATHMANDU_LONGITUDE
+} from './calendars/astronomy';
+
+export type NepaliPaksha = 'shukla' | 'krishna';
+
+/**
+ * How lunar months are delimited. In `purnimanta` reckoning, used in Nepal, months end at the full moon,
+ * so the krishna paksha is named after the following month. In `amanta` reckoning months end at the new moon.
+ */
+export type NepaliLunarMonthScheme = 'purnimanta' | 'amanta';
+
+/** The lunar date (tithi) prevailing at sunrise in Kathmandu on a given day. */
+export interface NepaliLunarDate {
+  /** The lunar month, numbered like the solar months from 1 for Baisakh to 12 for Chaitra. */
+  month: number,
+  /** Whether the month is an intercalary (adhik) month, named after the month that follows it. */
+  adhik: boolean,
+  paksha: NepaliPaksha,
+  /** The tithi within the paksha, from 1 (pratipada) to 15 (purnima or aunsi). */
+  tithi: number
+}
+
+export const NEPALI_LUNAR_MONTH_NAMES = [
+  'वैशाख', 'ज्येष्ठ', 'आषाढ', 'श्रावण', 'भाद्र', 'आश्विन',
+  'कार्तिक', 'मार्गशीर्ष', 'पौष', 'माघ', 'फाल्गुन', 'चैत्र'
+];
+
+export const TRANSLITERATED_LUNAR_MONTH_NAMES = [
+  'Baisakh', 'Jestha', 'Asadh', 'Shrawan', 'Bhadra', 'Ashwin',
+  'Kartik', 'Mangsir', 'Poush', 'Magh', 'Falgun', 'Chaitra'
+];
+
+export const NEPALI_TITHI_NAMES = [
+  'प्रतिपदा', 'द्वितीया', 'तृतीया', 'चतुर्थी', 'पञ्चमी', 'षष्ठी', 'सप्तमी', 'अष्टमी',
+  'नवमी', 'दशमी', 'एकादशी', 'द्वादशी', 'त्रयोदशी', 'चतुर्दशी', 'पूर्णिमा', 'औंसी'
+];
+
+export const TRANSLITERATED_TITHI_NAMES = [
+  'Pratipada', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami', 'Shashthi', 'Saptami', 'Ashtami',
+  'Navami', 'Dashami', 'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi', 'Purnima', 'Aunsi'
+];
+
+export const NEPALI_PAKSHA_NAMES = {shukla: 'शुक्ल', krishna: 'कृष्ण'};
+export const TRANSLITERATED_PAKSHA_NAMES = {shukla: 'Shukla', krishna: 'Krishna'};
+
+/**
+ * Computes the tithi, paksha and lunar month prevailing at sunrise in Kathmandu on the given day, which
+ * may be in any calendar. The lunar phase follows modern algorithms and is accurate to a few minutes, so
+ * a tithi ending within minutes of sunrise may differ from a published almanac. Lunar months are named
+ * after the rashi of the sun, following the Surya Siddhanta like the solar months.
+ */
+export function getNepaliLunarDate(date: AnyCalendarDate, scheme: NepaliLunarMonthScheme = 'purnimanta'): NepaliLunarDate {
+  const jd = date.calendar.toJulianDay(date);
+  const sunrise = getSunrise(jd, KATHMANDU_LATITUDE, KATHMANDU_LONGITUDE);
+
+  // Each tithi is a 12 degree step of the moon ahead of the sun
+  const tithi = Math.floor(getLunarPhase(sunrise) / 12) + 1;
+  const paksha: NepaliPaksha = tithi <= 15 ? 'shukla' : 'krishna';
+
+  // If the sun is still in the same rashi at the next new moon, it is an adhik month
+  let month = getLunarMonthAtNewMoon(getNewMoonBefore(sunrise));
+  const adhik = getLunarMonthAtNewMoon(getNewMoonAfter(sunrise)) === month;
+
+  // The krishna paksha of a regular month belongs to the next month in purnimanta reckoning.
+  // Intercalary months keep both pakshas.
+  if (scheme === 'purnimanta' && paksha === 'krishna' && !adhik) {
+    month = month % 12 + 1;
+  }
+
+  return {month, adhik, paksha, tithi: paksha === 'shukla' ? tithi : tithi - 15};
+}
+
+/**
+ * Returns the names of the lunar month, paksha and tithi, e.g. "श्रावण", "शुक्ल" and "पञ्चमी",
+ * in Nepali or transliterated. The month of an adhik month is prefixed with "अधिक" or "Adhik".
+ */
+export function getNepaliLunarDateNames(lunarDate: NepaliLunarDate, locale: string): {month: string, paksha: string, tithi: string} {
+  const isNepali = locale.startsWith('ne');
+  const monthNames = isNepali ? NEPALI_LUNAR_MONTH_NAMES : TRANSLITERATED_LUNAR_MONTH_NAMES;
+  const tithiNames = isNepali ? NEPALI_TITHI_NAMES : TRANSLITERATED_TITHI_NAMES;
+  const pakshaNames = isNepali ? NEPALI_PAKSHA_NAMES : TRANSLITERATED_PAKSHA_NAMES;
+
+  let month = monthNames[lunarDate.month - 1];
+  if (lunarDate.adhik) {
+    month = (isNepali ? 'अधिक ' : 'Adhik ') + month;
+  }
+
+  // The 15th tithi is the full moon in the shukla paksha and the new moon in the krishna paksha
+  const tithiIndex = lunarDate.tithi === 15 && lunarDate.paksha === 'krishna' ? 15 : lunarDate.tithi - 1;
+
+  return {month, paksha: pakshaNames[lunarDate.paksha], tithi: tithiNames[tithiIndex]};
+}
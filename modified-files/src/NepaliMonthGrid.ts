@@ -0,0 +1,121 @@
+import {CalendarDate} from './CalendarDate';
+import {getDayOfWeek, isWeekend, startOfWeek} from './queries';
+import {GregorianCalendar} from './calendars/GregorianCalendar';
+import {NepaliCalendar, NepaliCalendarRangeError} from './calendars/NepaliCalendar';
+import {toCalendar} from './conversion';
+
+type DayOfWeek = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+const DAYS: DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Functions that annotate each cell, e.g. with holidays or the tithi, keyed by the name of the annotation. */
+export type NepaliMonthGridAnnotators = Record<string, (date: CalendarDate) => unknown>;
+
+export interface NepaliMonthGridCell<A extends NepaliMonthGridAnnotators = Record<never, never>> {
+  /**
+   * The date in the `NepaliCalendar`, or null for cells that fill the first or last week of the first or last
+   * supported month with days outside the calendar's supported range.
+   */
+  date: CalendarDate | null,
+  /** The same date in the Gregorian calendar. */
+  gregorianDate: CalendarDate,
+  weekday: DayOfWeek,
+  /** Whether the date belongs to the previous or next month, shown to fill the first or last week. */
+  isOutsideMonth: boolean,
+  /** Whether the date falls on the weekend of the locale. */
+  isWeekend: boolean,
+  /** The values returned by each annotator for this date, or null when `date` is null. */
+  annotations: {[K in keyof A]: ReturnType<A[K]>} | null
+}
+
+export interface NepaliMonthGrid<A extends NepaliMonthGridAnnotators = Record<never, never>> {
+  year: number,
+  month: number,
+  /** The days of the week in column order, for the grid's header. */
+  weekdays: DayOfWeek[],
+  /** The weeks of the grid, each with seven cells. */
+  weeks: NepaliMonthGridCell<A>[][]
+}
+
+export interface NepaliMonthGridOptions<A extends NepaliMonthGridAnnotators = Record<never, never>> {
+  /**
+   * The locale used to determine the first day of the week and the weekend.
+   * @default 'ne-NP'
+   */
+  locale?: string,
+  /** The first day of the week, overriding the locale. */
+  firstDayOfWeek?: DayOfWeek,
+  /** Whether to always return six weeks, so that grids for every month have the same height. */
+  fixedWeeks?: boolean,
+  /** The calendar used for Bikram Sambat dates, e.g. one created with additional month data. */
+  calendar?: NepaliCalendar,
+  /**
+   * Functions that annotate each cell, e.g. `{holidays: date => businessCalendar.getObservances(date)}`
+   * or `{tithi: date => getNepaliLunarDate(date)}`. Cells outside the month are annotated too, unless they
+   * are outside the calendar's supported range.
+   */
+  annotators?: A
+}
+
+/**
+ * Returns a weeks × 7 grid for a Bikram Sambat month, as used by date pickers and wall calendars.
+ * The grid starts on the first day of the week containing the first of the month and includes the
+ * days of the adjacent months needed to fill the first and last weeks.
+ */
+export function getNepaliMonthGrid<A extends NepaliMonthGridAnnotators = Record<never, never>>(year: number, month: number, options: NepaliMonthGridOptions<A> = {}): NepaliMonthGrid<A> {
+  const {locale = 'ne-NP', firstDayOfWeek, fixedWeeks = false, calendar = new NepaliCalendar(), annotators} = options;
+  const {start, end} = calendar.getSupportedRange();
+  if (year < start.year || year > end.year) {
+    throw new NepaliCalendarRangeError('Year outside supported range: ' + year, year, start, end);
+  }
+
+  const firstOfMonth = new CalendarDate(calendar, year, month, 1);
+  if (firstOfMonth.month !== month) {
+    throw new Error('Invalid month: ' + month);
+  }
+
+  // The grid is laid out in Gregorian dates, so that the first and last weeks of the supported range can be
+  // filled with days the calendar cannot represent
+  const gregorian = new GregorianCalendar();
+  const gregorianRange = {start: toCalendar(start, gregorian), end: toCalendar(end, gregorian)};
+  const gregorianFirstOfMonth = toCalendar(firstOfMonth, gregorian);
+  const gridStart = startOfWeek(gregorianFirstOfMonth, locale, firstDayOfWeek);
+  const offset = gregorianFirstOfMonth.compare(gridStart);
+  const weekCount = fixedWeeks ? 6 : Math.ceil((offset + calendar.getDaysInMonth(firstOfMonth)) / 7);
+
+  const weeks: NepaliMonthGridCell<A>[][] = [];
+  for (let week = 0; week < weekCount; week++) {
+    const cells: NepaliMonthGridCell<A>[] = [];
+    for (let day = 0; day < 7; day++) {
+      const gregorianDate = gridStart.add({days: week * 7 + day});
+      const isSupported = gregorianDate.compare(gregorianRange.start) >= 0 && gregorianDate.compare(gregorianRange.end) <= 0;
+      const date = isSupported ? toCalendar(gregorianDate, calendar) : null;
+
+      let annotations: NepaliMonthGridCell<A>['annotations'] = null;
+      if (date) {
+        annotations = {} as NonNullable<NepaliMonthGridCell<A>['annotations']>;
+        for (const key in annotators) {
+          annotations[key] = annotators[key](date) as ReturnType<A[typeof key]>;
+        }
+      }
+
+      cells.push({
+        date,
+        gregorianDate,
+        weekday: DAYS[getDayOfWeek(gregorianDate, locale, 'sun')],
+        isOutsideMonth: date?.month !== month,
+        isWeekend: isWeekend(gregorianDate, locale),
+        annotations
+      });
+    }
+
+    weeks.push(cells);
+  }
+
+  return {
+    year,
+    month,
+    weekdays: weeks[0].map(cell => cell.weekday),
+    weeks
+  };
+}
@@ -0,0 +1,92 @@
+import {AnyCalendarDate, Calendar} from './types';
+
+/** A calendar implementation registered at runtime with `registerCalendar`. */
+export interface CalendarRegistration {
+  /** Creates an instance of the calendar. */
+  createCalendar(): Calendar,
+  /**
+   * Creates the formatter `DateFormatter` uses for the calendar. When omitted, `Intl.DateTimeFormat`
+   * is used, which formats in the Gregorian calendar if the browser does not support the calendar.
+   */
+  createDateTimeFormat?(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat,
+  /** Other identifiers for the calendar, e.g. `bikram-sambat`. */
+  aliases?: string[]
+}
+
+/**
+ * A formatter that formats `CalendarDate`, `CalendarDateTime` and `ZonedDateTime` values from their own fields,
+ * as well as instants. `DateFormatter` passes such values to it as they are, instead of converting them to a `Date`.
+ */
+export interface CalendarDateTimeFormat {
+  readonly formatsCalendarDates: true,
+  format(date?: Date | number | AnyCalendarDate): string,
+  formatToParts(date?: Date | number | AnyCalendarDate): Intl.DateTimeFormatPart[],
+  formatRange(startDate: Date | number | AnyCalendarDate, endDate: Date | number | AnyCalendarDate): string,
+  formatRangeToParts(startDate: Date | number | AnyCalendarDate, endDate: Date | number | AnyCalendarDate): Intl.DateTimeRangeFormatPart[]
+}
+
+/** Returns whether a formatter created by a calendar registration formats calendar dates from their fields. */
+export function formatsCalendarDates(formatter: Intl.DateTimeFormat): formatter is Intl.DateTimeFormat & CalendarDateTimeFormat {
+  return (formatter as Partial<CalendarDateTimeFormat>).formatsCalendarDates === true;
+}
+
+interface RegistryEntry {
+  identifier: string,
+  registration: CalendarRegistration
+}
+
+const registry = new Map<string, RegistryEntry>();
+
+/**
+ * Registers a calendar implementation under an identifier and its aliases. `createCalendar`, `DateFormatter`
+ * and the `-u-ca-` extension of locale strings then resolve them to it. A registration replaces any earlier
+ * one for the same identifiers, including the built-in calendars. Identifiers are case insensitive.
+ */
+export function registerCalendar(identifier: string, registration: CalendarRegistration): void {
+  identifier = identifier.toLowerCase();
+  unregisterCalendar(identifier);
+
+  let entry = {identifier, registration};
+  for (let name of [identifier, ...(registration.aliases ?? [])]) {
+    registry.set(name.toLowerCase(), entry);
+  }
+}
+
+/** Removes a calendar registration, with its aliases, by its identifier or one of its aliases. */
+export function unregisterCalendar(identifier: string): void {
+  let entry = registry.get(identifier.toLowerCase());
+  if (entry) {
+    for (let [name, value] of registry) {
+      if (value === entry) {
+        registry.delete(name);
+      }
+    }
+  }
+}
+
+/** Returns the registered identifier and implementation for a calendar identifier or alias, if any. */
+export function getRegisteredCalendar(identifier: string): {identifier: string, registration: CalendarRegistration} | null {
+  return registry.get(identifier.toLowerCase()) ?? null;
+}
+
+/**
+ * Returns the calendar requested by the `-u-ca-` extension of a locale string, e.g. `nepali` for `ne-NP-u-ca-nepali`.
+ * Aliases are resolved to the registered identifier. Identifiers may have several subtags, e.g. `bikram-sambat`
+ * or `islamic-umalqura`, and the longest registered one is used.
+ */
+export function getLocaleCalendar(locale: string): string | null {
+  let type = locale.match(/-u(?:-[a-z0-9]{2,8})*?-ca((?:-[a-z0-9]{3,8})+)/i)?.[1];
+  if (!type) {
+    return null;
+  }
+
+  let subtags = type.slice(1).toLowerCase().split('-');
+  for (let length = subtags.length; length > 0; length--) {
+    let entry = registry.get(subtags.slice(0, length).join('-'));
+    if (entry) {
+      return entry.identifier;
+    }
+  }
+
+  return subtags.join('-');
+}
@@ -0,0 +1,191 @@
+import {AnyCalendarDate, Calendar, CalendarIdentifier} from '../types';
+import {CalendarDate} from '../CalendarDate';
+import {getFullMoonAfter, getLunarMonthAtNewMoon, getLunarMonthStart, getNewMoonAfter, getNewMoonBefore} from './astronomy';
+import {gregorianToJulianDay} from './GregorianCalendar';
+import {Mutable} from '../utils';
+import {NepaliLunarMonthScheme} from '../NepaliLunarDate';
+
+export interface LunarMonth {
+  start: number, // Julian day of the first day
+  krishnaStart: number, // Julian day of the first day after the full moon
+  name: number, // 1 for Baisakh to 12 for Chaitra
+  adhik: boolean
+}
+
+interface LunarYear {
+  months: LunarMonth[],
+  end: number // Julian day of the first day of the next year
+}
+
+// Computing a year takes a few dozen new and full moons, so recently used years are kept, least recently used first
+const YEAR_CACHE_SIZE = 16;
+const yearCache = new Map<string, LunarYear>();
+
+/**
+ * Returns the new moon that begins the lunar year starting in the given Gregorian year with the
+ * amanta month of the given name. An adhik month of that name comes first and begins the year.
+ */
+function getYearStartNewMoon(gregorianYear: number, startMonth: number) {
+  // The new moon of a month falls in the solar month of the same name, so search back from
+  // the middle of the following solar month. Magh to Chaitra fall early in the Gregorian year.
+  let baisakhYear = startMonth >= 10 ? gregorianYear - 1 : gregorianYear;
+  let newMoon = getNewMoonBefore(gregorianToJulianDay('AD', baisakhYear, 4, 14) + (startMonth - 1) * 30.44 + 45);
+  for (let i = 0; i < 3; i++) {
+    let previous = getNewMoonBefore(newMoon - 1);
+    if (getLunarMonthAtNewMoon(newMoon) === startMonth && getLunarMonthAtNewMoon(previous) !== startMonth) {
+      break;
+    }
+
+    newMoon = previous;
+  }
+
+  return newMoon;
+}
+
+/** Returns the amanta months, from new moon to new moon, from the given new moon up to the end of the year. */
+function getMonths(newMoon: number, end: number): LunarMonth[] {
+  let months: LunarMonth[] = [];
+  let start = getLunarMonthStart(newMoon);
+  while (start < end) {
+    let fullMoon = getFullMoonAfter(newMoon);
+    let nextNewMoon = getNewMoonAfter(fullMoon);
+    let name = getLunarMonthAtNewMoon(newMoon);
+
+    // The sun stays in one rashi for the whole of an adhik month
+    let adhik = getLunarMonthAtNewMoon(nextNewMoon) === name;
+    months.push({start, krishnaStart: getLunarMonthStart(fullMoon), name, adhik});
+
+    newMoon = nextNewMoon;
+    start = getLunarMonthStart(newMoon);
+  }
+
+  return months;
+}
+
+function getLunarYear(gregorianYear: number, startMonth: number): LunarYear {
+  let key = gregorianYear + '-' + startMonth;
+  let lunarYear = yearCache.get(key);
+  if (lunarYear) {
+    // Move the year to the end, as the most recently used
+    yearCache.delete(key);
+  } else {
+    let end = getLunarMonthStart(getYearStartNewMoon(gregorianYear + 1, startMonth));
+    lunarYear = {months: getMonths(getYearStartNewMoon(gregorianYear, startMonth), end), end};
+    if (yearCache.size >= YEAR_CACHE_SIZE) {
+      yearCache.delete(yearCache.keys().next().value!);
+    }
+  }
+
+  yearCache.set(key, lunarYear);
+  return lunarYear;
+}
+
+/**
+ * A base class for the Hindu lunisolar calendars, whose months follow the moon and are named after
+ * the rashi of the sun at the new moon, following the Surya Siddhanta like the solar months.
+ * Months run from one new moon to the next, starting on the first day whose sunrise in Kathmandu
+ * follows the new moon. A year has an extra month when it contains an adhik (intercalary) month, a
+ * month in which the sun enters no new rashi. In purnimanta reckoning the same months are only named
+ * differently: the days after the full moon of a regular month carry the name of the next month.
+ *
+ * Months are numbered in order within the year, so in a year with an adhik month the months after it
+ * have a higher number than usual. Days are numbered from the start of the month, while the tithi
+ * printed in almanacs can skip or repeat. The new moons are computed astronomically, so dates are
+ * not limited to a table.
+ */
+export abstract class HinduLunisolarCalendar implements Calendar {
+  abstract identifier: CalendarIdentifier;
+
+  /**
+   * @param startMonth - The lunar month that begins the year, from 1 for Baisakh to 12 for Chaitra.
+   * @param scheme - How months are named. Months always run from new moon to new moon, and in purnimanta
+   *   reckoning the days after the full moon of a regular month are named after the next month.
+   * @param yearOffset - The difference between the Gregorian year in which a year begins and its number.
+   */
+  constructor(private startMonth: number, private scheme: NepaliLunarMonthScheme, private yearOffset: number) {}
+
+  fromJulianDay(jd: number): CalendarDate {
+    // Estimate the year from the Gregorian year, then correct it
+    let year = Math.floor((jd - 1721426) / 365.2425) + 1 - this.yearOffset;
+    let lunarYear = this.getLunarYear(year);
+    while (jd < lunarYear.months[0].start) {
+      lunarYear = this.getLunarYear(--year);
+    }
+
+    while (jd >= lunarYear.end) {
+      lunarYear = this.getLunarYear(++year);
+    }
+
+    let month = lunarYear.months.length;
+    while (lunarYear.months[month - 1].start > jd) {
+      month--;
+    }
+
+    return new CalendarDate(this, year, month, jd - lunarYear.months[month - 1].start + 1);
+  }
+
+  toJulianDay(date: AnyCalendarDate): number {
+    return this.getLunarMonth(date).start + date.day - 1;
+  }
+
+  getDaysInMonth(date: AnyCalendarDate): number {
+    let {months, end} = this.getLunarYear(date.year);
+    let next = date.month < months.length ? months[date.month].start : end;
+    return next - this.getLunarMonth(date).start;
+  }
+
+  getMonthsInYear(date: AnyCalendarDate): number {
+    return this.getLunarYear(date.year).months.length;
+  }
+
+  getDaysInYear(date: AnyCalendarDate): number {
+    let {months, end} = this.getLunarYear(date.year);
+    return end - months[0].start;
+  }
+
+  getYearsInEra(): number {
+    return 9999;
+  }
+
+  abstract getEras(): string[];
+
+  balanceYearMonth(date: Mutable<AnyCalendarDate>, previousDate: AnyCalendarDate): void {
+    // Keep the date in the month with the same name when moving between years with and without an adhik month
+    if (previousDate.year !== date.year && previousDate.month === date.month) {
+      let {name} = this.getLunarYear(previousDate.year).months[previousDate.month - 1];
+      let index = this.getLunarYear(date.year).months.findIndex(month => month.name === name && !month.adhik);
+      if (index >= 0) {
+        date.month = index + 1;
+      }
+    }
+  }
+
+  /**
+   * Returns the name of the lunar month in which the given date falls in this calendar's reckoning,
+   * from 1 for Baisakh to 12 for Chaitra, and whether it is adhik.
+   */
+  protected getLunarMonthName(date: AnyCalendarDate): {name: number, adhik: boolean} {
+    let {krishnaStart, name, adhik} = this.getLunarMonth(date);
+
+    // In purnimanta reckoning the krishna paksha of a regular month belongs to the next month.
+    // Adhik months keep both pakshas.
+    if (this.scheme === 'purnimanta' && !adhik && this.toJulianDay(date) >= krishnaStart) {
+      name = name % 12 + 1;
+    }
+
+    return {name, adhik};
+  }
+
+  private getLunarMonth(date: AnyCalendarDate): LunarMonth {
+    let month = this.getLunarYear(date.year).months[date.month - 1];
+    if (!month) {
+      throw new Error('Invalid month: ' + date.month);
+    }
+
+    return month;
+  }
+
+  private getLunarYear(year: number) {
+    return getLunarYear(year + this.yearOffset, this.startMonth);
+  }
+}
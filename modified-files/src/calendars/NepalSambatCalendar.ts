@@ -0,0 +1,41 @@
+import {AnyCalendarDate, CalendarIdentifier} from '../types';
+import {HinduLunisolarCalendar} from './HinduLunisolarCalendar';
+
+// Nepal Sambat years begin in the autumn of 879 CE
+const NEPAL_SAMBAT_EPOCH_YEAR = 879;
+
+// The year begins with Kachhala, the lunar month of Kartik
+const KACHHALA = 7;
+
+/**
+ * The Nepal Sambat calendar is a lunisolar calendar used in Nepal alongside Bikram Sambat, especially in
+ * the Kathmandu valley. Years are counted from 879 CE and begin with the month of Kachhala, the day after
+ * the new moon of Kartik. Months run from one new moon to the next, starting on the first day whose sunrise
+ * in Kathmandu follows the new moon, and so have 29 or 30 days. A year has 13 months when it contains an
+ * adhik (intercalary) month, a month in which the sun enters no new rashi.
+ *
+ * Months are numbered in order within the year, so in a year with an adhik month the months after it have
+ * a higher number than usual. Use `getMonthName` to find the name of a month and whether it is adhik.
+ * Days are numbered from the start of the month, while the tithi printed in almanacs can skip or repeat.
+ * The new moons are computed astronomically, so dates are not limited to a table.
+ */
+export class NepalSambatCalendar extends HinduLunisolarCalendar {
+  identifier: CalendarIdentifier = 'newar';
+
+  constructor() {
+    super(KACHHALA, 'amanta', NEPAL_SAMBAT_EPOCH_YEAR);
+  }
+
+  getEras(): string[] {
+    return ['NS'];
+  }
+
+  /**
+   * Returns the name of the month of the given date, numbered from 1 for Kachhala to 12 for Kaula,
+   * and whether it is an adhik month.
+   */
+  getMonthName(date: AnyCalendarDate): {month: number, adhik: boolean} {
+    let {name, adhik} = this.getLunarMonthName(date);
+    return {month: (name - KACHHALA + 12) % 12 + 1, adhik};
+  }
+}
@@ -13,84 +13,437 @@
 // Portions of the code in this file are based on code from ICU.
 // Original licensing can be found in the NOTICE file in the root directory of this source tree.
 
-import {AnyCalendarDate, CalendarIdentifier} from '../types';
-import {CalendarDate} from '../CalendarDate';
-import {GregorianCalendar} from './GregorianCalendar';
-
-const NEPALI_EPOCH = 2419871; // Julian day for 1970 Baisakh 1 (first month, first day of first year in our data)
-const VIKRAM_YEAR_ZERO = 1970;
+import {AnyCalendarDate, Calendar, CalendarIdentifier} from '../types';
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from '../CalendarDate';
+import {toCalendar} from '../conversion';
+import {getSankranti, getSunrise, KATHMANDU_LATITUDE, KATHMANDU_LONGITUDE, NEPAL_TIME_OFFSET} from './astronomy';
+import {GregorianCalendar, gregorianToJulianDay} from './GregorianCalendar';
+
+// Julian day for 1970 Baisakh 1. The epoch of the first year in our data is derived from this anchor,
+// so that years can be prepended to the data without re-deriving the epoch by hand.
+const NEPALI_ANCHOR_YEAR = 1970;
+const NEPALI_ANCHOR_EPOCH = 2419871;
+const VIKRAM_YEAR_ZERO = 1970; // First year in our data
 
 const VIKRAM_MONTH_DATA = 'uhpRALoXUQDuVpAA7VaEALoaUQD6GVEA7laQAO1WhAC6GlEA+hZRAO5WkADqSlEAuhpRAPoWUQDuVpAA6kpRALoaUQDuFlEA7laQAOoaUQC6GlEA7hZRAO5WhADqGlEAuhpRAO5WUADuVoQAuhpRALoaUQDuVpAA7VaEALoaUQD6FlEA7laQAO1WhAC6GlEA+hZRAO5WkADqSoEAuhpRAPoWUQDuVpAA6kpRALoaUQD6FlEA7laQAOpKUQC6GlEA7hZRAO5WhADqGlEAuhpRAO5WUADuVoQA6hpRALoaUQDuVpAA7VaEALoaUQC6F1EA7laQAO1WhAC6GlEA+hZRAO5WkADtSoEAuhpRAPoWUQDuVpAA6kpRALoaUQD6FlEA7laQAOpKUQC6GlEA7hZRAO5WkADqGlEAuhpRAO5WUADuVoQA6hpRALoaUQDuVlAA7laEALoaUQC6F1EA7laQAO1WhAC6GlEA+hZRAO5WkADtSoQAuhpRAPoWUQDuVpAA6kqBALoaUQD6FlEA7laQAOpKUQC6GlEA7hZRAO5WkADqGlEAuhpRAO5WUADuVoQA6hpRALoaUQDuVlAA7laEALoaUQC6GlEA7laQAO1WhAC6GlEA+hZRAO5WkADtVoQAuhpRAPoWUQDuVpAA6kqBALoaUQD6FlEA7laQAOpKUQC6GlEA+hZRAA==';
 
-let VIKRAM_YEAR_START_TABLE: Uint32Array;
-let VIKRAM_MONTHLENGTH: Uint32Array;
+/**
+ * Month lengths by Bikram Sambat year. Either twelve month lengths per year, e.g. `{2081: [31, 32, ...]}`,
+ * or the packed encoding used for the bundled data: base64 of one 32 bit word per year, storing the
+ * length of each month minus 29 in two bits, starting from `startYear`.
+ */
+export type NepaliMonthLengths = {[year: number]: number[]} | {startYear: number, data: string};
 
-function vikramMonthLength(year: number, month: number) {
-  if (month < 1 || month > 12) {throw new Error('Invalid month value: ' + month);}
+/**
+ * How a `NepaliCalendar` determines month lengths. `table` uses only the published data, `astronomical`
+ * computes every month from the solar sankranti, and `hybrid` uses the published data and computes
+ * the years before and after it.
+ *
+ * Computed months are estimates. Over the published data for 1970-2099 BS, 118 of the 1560 computed month
+ * starts are a day off, in 78 of the 130 years, so 3621 of the 47483 days (7.6%) get a different date.
+ * `getDateSource` returns `estimated` for the years that were computed.
+ */
+export type NepaliCalendarMode = 'table' | 'astronomical' | 'hybrid';
 
-  const delta = VIKRAM_MONTHLENGTH[year - VIKRAM_YEAR_ZERO];
-  if (typeof delta === 'undefined') {throw new Error('No data for year: ' + year + ' BS');}
+export interface NepaliCalendarOptions {
+  /** Month lengths that replace or extend the data for this calendar only. */
+  monthLengths?: NepaliMonthLengths,
+  /** How month lengths are determined. Defaults to `table`, since the other modes add estimated years. */
+  mode?: NepaliCalendarMode
+}
 
-  return 29 + ((delta >>> (((month - 1) << 1))) & 3);
+/** A year where the month lengths computed from the solar sankranti differ from the published data. */
+export interface NepaliCalendarDiscrepancy {
+  year: number,
+  table: number[],
+  computed: number[]
 }
 
 /**
- * The Vikram Samvat Calendar is a historical Hindu calendar used in the Indian subcontinent and Nepal.
- * Years are counted from 57 BCE. The calendar is primarily used in Nepal and among Hindus
- * in North India. Only one era identifier is supported: 'vikram'.
+ * Error thrown when a date or year is outside the range supported by a `NepaliCalendar`.
+ * `value` is the offending Julian day or year, and `minDate` and `maxDate` are the supported range.
  */
-export class NepaliCalendar extends GregorianCalendar {
-  identifier = 'nepali' as CalendarIdentifier;
+export class NepaliCalendarRangeError extends RangeError {
+  readonly value: number;
+  readonly minDate: CalendarDate;
+  readonly maxDate: CalendarDate;
+
+  constructor(message: string, value: number, minDate: CalendarDate, maxDate: CalendarDate) {
+    super(message);
+    this.name = 'NepaliCalendarRangeError';
+    this.value = value;
+    this.minDate = minDate;
+    this.maxDate = maxDate;
+  }
+}
 
-  constructor() {
-    super();
-    if (!VIKRAM_MONTHLENGTH) {
-      VIKRAM_MONTHLENGTH = new Uint32Array(Uint8Array.from(atob(VIKRAM_MONTH_DATA), c => c.charCodeAt(0)).buffer);
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+
+interface Anchor {
+  year: number,
+  jd: number // Julian day for Baisakh 1 of year
+}
+
+class VikramMonthTable {
+  readonly startYear: number;
+  readonly endYear: number;
+  readonly epoch: number; // Julian day for Baisakh 1 of startYear
+  readonly computedYears: Set<number>;
+  private anchor: Anchor;
+  private monthLengths: Uint32Array;
+  private yearStarts: Uint32Array;
+
+  constructor(startYear: number, monthLengths: Uint32Array, anchor: Anchor = {year: NEPALI_ANCHOR_YEAR, jd: NEPALI_ANCHOR_EPOCH}, computedYears: Set<number> = new Set()) {
+    this.startYear = startYear;
+    this.endYear = startYear + monthLengths.length - 1;
+    this.monthLengths = monthLengths;
+    this.anchor = anchor;
+    this.computedYears = computedYears;
+
+    if (anchor.year < this.startYear || anchor.year > this.endYear) {
+      throw new Error('Month data must include ' + anchor.year + ' BS');
+    }
+
+    // One extra entry holds the day after the last supported date
+    this.yearStarts = new Uint32Array(monthLengths.length + 1);
+
+    let yearStart = 0;
+    for (let year = this.startYear; year <= this.endYear; year++) {
+      this.yearStarts[year - this.startYear] = yearStart;
+
+      let daysInYear = 0;
+      for (let i = 1; i <= 12; i++) {
+        daysInYear += this.monthLength(year, i);
+      }
+
+      if (daysInYear !== 365 && daysInYear !== 366) {
+        throw new Error('Invalid number of days in year ' + year + ' BS: ' + daysInYear);
+      }
+
+      yearStart += daysInYear;
     }
+    this.yearStarts[monthLengths.length] = yearStart;
+
+    this.epoch = anchor.jd - this.yearStarts[anchor.year - this.startYear];
+  }
+
+  monthLength(year: number, month: number): number {
+    if (month < 1 || month > 12) {throw new Error('Invalid month value: ' + month);}
+
+    const delta = this.monthLengths[year - this.startYear];
+    if (typeof delta === 'undefined') {throw new Error('No data for year: ' + year + ' BS');}
+
+    return 29 + ((delta >>> (((month - 1) << 1))) & 3);
+  }
+
+  /** Returns the number of days from the epoch to Baisakh 1 of the given year, or to the end of the data. */
+  yearStart(year: number): number {
+    return this.yearStarts[year - this.startYear];
+  }
+
+  /** Returns a copy of the packed data with the given years replaced or added. */
+  merge(monthLengths: NepaliMonthLengths): VikramMonthTable {
+    return this.mergePacked(decodeMonthLengths(monthLengths), false);
+  }
+
+  /** Returns a copy of the packed data with the given packed years replaced or added. */
+  mergePacked(packedMonthLengths: Map<number, number>, computed: boolean): VikramMonthTable {
+    const years = new Map<number, number>();
+    for (let year = this.startYear; year <= this.endYear; year++) {
+      years.set(year, this.monthLengths[year - this.startYear]);
+    }
+
+    const computedYears = new Set(this.computedYears);
+    for (const [year, packed] of packedMonthLengths) {
+      years.set(year, packed);
+      if (computed) {
+        computedYears.add(year);
+      } else {
+        computedYears.delete(year);
+      }
+    }
+
+    const sortedYears = [...years.keys()].sort((a, b) => a - b);
+    const packedYears = new Uint32Array(sortedYears.length);
+    sortedYears.forEach((year, index) => {
+      if (index > 0 && year !== sortedYears[index - 1] + 1) {
+        throw new Error('Missing month data for year: ' + (sortedYears[index - 1] + 1) + ' BS');
+      }
+      packedYears[index] = years.get(year)!;
+    });
+
+    return new VikramMonthTable(sortedYears[0], packedYears, this.anchor, computedYears);
+  }
+}
+
+function decodeMonthLengths(monthLengths: NepaliMonthLengths): Map<number, number> {
+  const years = new Map<number, number>();
+
+  if ('data' in monthLengths && typeof monthLengths.data === 'string') {
+    const {startYear, data} = monthLengths as {startYear: number, data: string};
+    if (!Number.isInteger(startYear)) {
+      throw new Error('Invalid start year: ' + startYear);
+    }
+
+    const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    if (bytes.length % 4 !== 0) {
+      throw new Error('Invalid packed month data length: ' + bytes.length);
+    }
+
+    new Uint32Array(bytes.buffer).forEach((packed, index) => years.set(startYear + index, packed));
+    return years;
+  }
+
+  for (const [key, lengths] of Object.entries(monthLengths)) {
+    const year = Number(key);
+    if (!Number.isInteger(year)) {
+      throw new Error('Invalid year: ' + key);
+    }
+
+    if (!Array.isArray(lengths) || lengths.length !== 12) {
+      throw new Error('Expected 12 month lengths for year ' + year + ' BS');
+    }
+
+    let packed = 0;
+    lengths.forEach((days, index) => {
+      if (!Number.isInteger(days) || days < 29 || days > 32) {
+        throw new Error('Invalid length for month ' + (index + 1) + ' of ' + year + ' BS: ' + days);
+      }
+      packed |= (days - 29) << (index << 1);
+    });
+
+    years.set(year, packed >>> 0);
+  }
+
+  return years;
+}
+
+let bundledTable: VikramMonthTable | null = null;
+let defaultTable: VikramMonthTable | null = null;
+
+function getBundledTable() {
+  if (!bundledTable) {
+    bundledTable = new VikramMonthTable(
+      VIKRAM_YEAR_ZERO,
+      new Uint32Array(Uint8Array.from(atob(VIKRAM_MONTH_DATA), c => c.charCodeAt(0)).buffer)
+    );
+  }
+
+  return bundledTable;
+}
+
+function getDefaultTable() {
+  return defaultTable ?? getBundledTable();
+}
+
+// Years for which month lengths are computed in the astronomical and hybrid modes
+const ASTRONOMICAL_START_YEAR = 1800;
+const ASTRONOMICAL_END_YEAR = 2400;
 
-    if (!VIKRAM_YEAR_START_TABLE) {
-      VIKRAM_YEAR_START_TABLE = new Uint32Array(VIKRAM_MONTHLENGTH.length);
+/**
+ * Returns the Julian day for the first day of the given month, computed from the solar sankranti.
+ * Days run from sunrise to sunrise, and a month begins on the day in which the sankranti falls, as in
+ * `hindu-solar-from-fixed` of Reingold and Dershowitz, Calendrical Calculations (chapter "Modern Hindu
+ * Calendars"), with sunrise in Kathmandu. The rule is not fitted to the published data, so that
+ * `getNepaliCalendarDiscrepancies` checks the data independently.
+ */
+function getComputedMonthStart(year: number, month: number): number {
+  // Baisakh begins in mid April of the Gregorian year 57 years earlier, and months last about 30.4 days
+  const estimate = gregorianToJulianDay('AD', year - 57, 4, 14) + (month - 1) * 30.44;
+  const sankranti = getSankranti(month - 1, estimate);
+
+  // A sankranti between midnight and sunrise belongs to the previous day
+  const day = Math.floor(sankranti + 0.5 + NEPAL_TIME_OFFSET);
+  return sankranti < getSunrise(day, KATHMANDU_LATITUDE, KATHMANDU_LONGITUDE) ? day - 1 : day;
+}
 
-      let yearStart = 0;
-      for (let year = VIKRAM_YEAR_ZERO; year <= VIKRAM_YEAR_ZERO + VIKRAM_MONTHLENGTH.length - 1; year++) {
-        VIKRAM_YEAR_START_TABLE[year - VIKRAM_YEAR_ZERO] = yearStart;
-        for (let i = 1; i <= 12; i++) {
-          yearStart += vikramMonthLength(year, i);
+let computedMonthLengths: Map<number, number> | null = null;
+let astronomicalTable: VikramMonthTable | null = null;
+const hybridTables = new WeakMap<VikramMonthTable, VikramMonthTable>();
+
+function getComputedMonthLengths() {
+  if (!computedMonthLengths) {
+    computedMonthLengths = new Map();
+    let monthStart = getComputedMonthStart(ASTRONOMICAL_START_YEAR, 1);
+    for (let year = ASTRONOMICAL_START_YEAR; year <= ASTRONOMICAL_END_YEAR; year++) {
+      let packed = 0;
+      for (let month = 1; month <= 12; month++) {
+        const nextMonthStart = month === 12 ? getComputedMonthStart(year + 1, 1) : getComputedMonthStart(year, month + 1);
+        const days = nextMonthStart - monthStart;
+        if (days < 29 || days > 32) {
+          throw new Error('Invalid computed length for month ' + month + ' of ' + year + ' BS: ' + days);
         }
+
+        packed |= (days - 29) << ((month - 1) << 1);
+        monthStart = nextMonthStart;
       }
+
+      computedMonthLengths.set(year, packed >>> 0);
     }
   }
 
-  fromJulianDay(jd: number): CalendarDate {
-    const days = jd - NEPALI_EPOCH;
+  return computedMonthLengths;
+}
+
+function getAstronomicalTable() {
+  if (!astronomicalTable) {
+    const monthLengths = getComputedMonthLengths();
+    astronomicalTable = new VikramMonthTable(
+      ASTRONOMICAL_START_YEAR,
+      Uint32Array.from(monthLengths.values()),
+      {year: ASTRONOMICAL_START_YEAR, jd: getComputedMonthStart(ASTRONOMICAL_START_YEAR, 1)},
+      new Set(monthLengths.keys())
+    );
+  }
+
+  return astronomicalTable;
+}
+
+function getHybridTable(table: VikramMonthTable) {
+  let hybridTable = hybridTables.get(table);
+  if (!hybridTable) {
+    // Computed years continue from the ends of the table, so the first computed year starts where the table ends
+    const monthLengths = new Map<number, number>();
+    for (const [year, packed] of getComputedMonthLengths()) {
+      if (year < table.startYear || year > table.endYear) {
+        monthLengths.set(year, packed);
+      }
+    }
+
+    hybridTable = table.mergePacked(monthLengths, true);
+    hybridTables.set(table, hybridTable);
+  }
 
-    let yearIndex = 0;
-    let yearCount = VIKRAM_MONTHLENGTH.length;
+  return hybridTable;
+}
 
-    if (days < 0 || days >= VIKRAM_YEAR_START_TABLE![yearCount]) {
-      throw new Error('Date outside supported range: ' + jd);
+/**
+ * Registers month lengths that replace or extend the bundled data for every `NepaliCalendar` created afterwards
+ * without its own data, including those from `createCalendar('nepali')`. Years may be replaced, or added
+ * contiguously before or after the bundled range. The data is validated before it is registered.
+ * Pass `null` to go back to the bundled data.
+ */
+export function registerNepaliMonthLengths(monthLengths: NepaliMonthLengths | null): void {
+  defaultTable = monthLengths ? getBundledTable().merge(monthLengths) : null;
+}
+
+/**
+ * Compares the month lengths computed from the solar sankranti with the bundled or registered data,
+ * and returns the years where they differ.
+ */
+export function getNepaliCalendarDiscrepancies(): NepaliCalendarDiscrepancy[] {
+  const table = getDefaultTable();
+  const astronomical = getAstronomicalTable();
+  const discrepancies: NepaliCalendarDiscrepancy[] = [];
+
+  const startYear = Math.max(table.startYear, astronomical.startYear);
+  const endYear = Math.min(table.endYear, astronomical.endYear);
+  for (let year = startYear; year <= endYear; year++) {
+    const tableLengths: number[] = [];
+    const computedLengths: number[] = [];
+    for (let month = 1; month <= 12; month++) {
+      tableLengths.push(table.monthLength(year, month));
+      computedLengths.push(astronomical.monthLength(year, month));
     }
 
-    let low = 0;
-    let high = yearCount;
+    if (tableLengths.some((days, index) => days !== computedLengths[index])) {
+      discrepancies.push({year, table: tableLengths, computed: computedLengths});
+    }
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Converts a date to the given `NepaliCalendar` like `toCalendar`, but without throwing for dates outside
+ * the supported range. By default these return `null`; with `clamp`, the date is moved to the first or last
+ * supported day, keeping its time of day.
+ */
+export function toNepaliCalendar(date: ZonedDateTime, calendar: NepaliCalendar, overflow?: 'null'): ZonedDateTime | null;
+export function toNepaliCalendar(date: CalendarDateTime, calendar: NepaliCalendar, overflow?: 'null'): CalendarDateTime | null;
+export function toNepaliCalendar(date: CalendarDate, calendar: NepaliCalendar, overflow?: 'null'): CalendarDate | null;
+export function toNepaliCalendar(date: ZonedDateTime, calendar: NepaliCalendar, overflow: 'clamp'): ZonedDateTime;
+export function toNepaliCalendar(date: CalendarDateTime, calendar: NepaliCalendar, overflow: 'clamp'): CalendarDateTime;
+export function toNepaliCalendar(date: CalendarDate, calendar: NepaliCalendar, overflow: 'clamp'): CalendarDate;
+export function toNepaliCalendar(date: DateValue, calendar: NepaliCalendar, overflow?: 'null' | 'clamp'): DateValue | null;
+export function toNepaliCalendar(date: DateValue, calendar: NepaliCalendar, overflow: 'null' | 'clamp' = 'null'): DateValue | null {
+  const jd = date.calendar.toJulianDay(date);
+  const {start, end} = calendar.getSupportedRange();
+  const minJd = calendar.toJulianDay(start);
+  const maxJd = calendar.toJulianDay(end);
+
+  if (jd >= minJd && jd <= maxJd) {
+    return toCalendar(date, calendar);
+  }
+
+  if (overflow === 'null') {
+    return null;
+  }
+
+  return toCalendar(date.add({days: (jd < minJd ? minJd : maxJd) - jd}), calendar);
+}
+
+/**
+ * The Bikram Sambat calendar is the official solar calendar of Nepal. Years are counted from 57 BCE and
+ * begin with Baisakh, when the sun enters Mesha, and each month lasts while the sun is in one rashi, so
+ * months have 29 to 32 days. Only one era is supported: 'BS'. For the lunisolar Vikram Samvat calendar
+ * used in India, see `VikramSamvatCalendar`.
+ *
+ * Month lengths come from the bundled data, or the data registered with `registerNepaliMonthLengths`.
+ * Month lengths passed to the constructor replace or extend those for this calendar only. In the
+ * `astronomical` and `hybrid` modes, month lengths are instead computed from the sun's sidereal ingress
+ * into each rashi following the Surya Siddhanta, for 1800-2400 BS. A computed month begins on the day,
+ * from sunrise to sunrise in Kathmandu, in which the sankranti falls. Published almanacs differ from this
+ * by a day for some months, mostly the starts of Shrawan and Magh, as `getNepaliCalendarDiscrepancies` lists,
+ * so computed dates are estimates (see `NepaliCalendarMode`).
+ */
+export class NepaliCalendar extends GregorianCalendar {
+  identifier = 'nepali' as CalendarIdentifier;
+  readonly mode: NepaliCalendarMode;
+  private table: VikramMonthTable;
+
+  constructor(options: NepaliCalendarOptions = {}) {
+    super();
+    const {monthLengths, mode = 'table'} = options;
+    this.mode = mode;
+
+    if (mode === 'astronomical') {
+      this.table = monthLengths ? getAstronomicalTable().merge(monthLengths) : getAstronomicalTable();
+    } else {
+      this.table = monthLengths ? getDefaultTable().merge(monthLengths) : getDefaultTable();
+      if (mode === 'hybrid') {
+        this.table = getHybridTable(this.table);
+      }
+    }
+  }
+
+  fromJulianDay(jd: number): CalendarDate {
+    const days = jd - this.table.epoch;
+    const {startYear, endYear} = this.table;
+
+    if (days < 0 || days >= this.table.yearStart(endYear + 1)) {
+      this.throwRangeError('Date outside supported range: ' + jd, jd);
+    }
+
+    let low = startYear;
+    let high = endYear + 1;
     while (low < high) {
       const mid = Math.floor((low + high) / 2);
-      if (VIKRAM_YEAR_START_TABLE![mid] <= days) {
+      if (this.table.yearStart(mid) <= days) {
         low = mid + 1;
       } else {
         high = mid;
       }
     }
 
-    yearIndex = low - 1;
-    const year = VIKRAM_YEAR_ZERO + yearIndex;
+    const year = low - 1;
 
-    let dayOfYear = days - VIKRAM_YEAR_START_TABLE![yearIndex];
+    let dayOfYear = days - this.table.yearStart(year);
     let month = 1;
     let dayInMonth = dayOfYear + 1;
 
     while (month <= 12) {
-      const daysInMonth = vikramMonthLength(year, month);
+      const daysInMonth = this.table.monthLength(year, month);
       if (dayInMonth <= daysInMonth) {
         break;
       }
@@ -103,23 +456,20 @@ export class NepaliCalendar extends GregorianCalendar {
 
   toJulianDay(date: AnyCalendarDate): number {
     const {year, month, day} = date;
-
-    if (year < VIKRAM_YEAR_ZERO || year >= VIKRAM_YEAR_ZERO + VIKRAM_MONTHLENGTH.length) {
-      throw new Error('Year outside supported range: ' + year);
-    }
+    this.checkYear(year);
 
     if (month < 1 || month > 12) {
       throw new Error('Invalid month: ' + month);
     }
 
-    if (day < 1 || day > vikramMonthLength(year, month)) {
+    if (day < 1 || day > this.table.monthLength(year, month)) {
       throw new Error('Invalid day: ' + day);
     }
 
-    let jd = NEPALI_EPOCH + VIKRAM_YEAR_START_TABLE![year - VIKRAM_YEAR_ZERO];
+    let jd = this.table.epoch + this.table.yearStart(year);
 
     for (let m = 1; m < month; m++) {
-      jd += vikramMonthLength(year, m);
+      jd += this.table.monthLength(year, m);
     }
 
     jd += day - 1;
@@ -128,27 +478,35 @@ export class NepaliCalendar extends GregorianCalendar {
   }
 
   getDaysInMonth(date: AnyCalendarDate): number {
-    return vikramMonthLength(date.year, date.month);
+    this.checkYear(date.year);
+    return this.table.monthLength(date.year, date.month);
   }
 
   getDaysInYear(date: AnyCalendarDate): number {
-    if (date.year < VIKRAM_YEAR_ZERO || date.year >= VIKRAM_YEAR_ZERO + VIKRAM_MONTHLENGTH.length) {
-      throw new Error('Year outside supported range: ' + date.year);
-    }
+    this.checkYear(date.year);
+    return this.table.yearStart(date.year + 1) - this.table.yearStart(date.year);
+  }
 
-    if (date.year === VIKRAM_YEAR_ZERO + VIKRAM_MONTHLENGTH.length - 1) {
-      let days = 0;
-      for (let m = 1; m <= 12; m++) {
-        days += vikramMonthLength(date.year, m);
-      }
-      return days;
-    }
+  /**
+   * Returns whether the month lengths for the year of the given date come from the published data, or are
+   * estimated from the solar sankranti and may be a day off the almanacs.
+   */
+  getDateSource(date: AnyCalendarDate): 'table' | 'estimated' {
+    this.checkYear(date.year);
+    return this.table.computedYears.has(date.year) ? 'estimated' : 'table';
+  }
 
-    return VIKRAM_YEAR_START_TABLE![date.year + 1 - VIKRAM_YEAR_ZERO] - VIKRAM_YEAR_START_TABLE![date.year - VIKRAM_YEAR_ZERO];
+  /** Returns the first and last dates supported by this calendar. */
+  getSupportedRange(): {start: CalendarDate, end: CalendarDate} {
+    const {startYear, endYear} = this.table;
+    return {
+      start: new CalendarDate(this, startYear, 1, 1),
+      end: new CalendarDate(this, endYear, 12, this.table.monthLength(endYear, 12))
+    };
   }
 
   getYearsInEra(): number {
-    return VIKRAM_YEAR_ZERO + VIKRAM_MONTHLENGTH.length - 1;
+    return this.table.endYear;
   }
 
   getEras(): string[] {
@@ -156,4 +514,19 @@ export class NepaliCalendar extends GregorianCalendar {
   }
 
   balanceDate(): void {}
+
+  isEqual(calendar: Calendar): boolean {
+    return calendar instanceof NepaliCalendar && calendar.table === this.table;
+  }
+
+  private checkYear(year: number) {
+    if (year < this.table.startYear || year > this.table.endYear) {
+      this.throwRangeError('Year outside supported range: ' + year, year);
+    }
+  }
+
+  private throwRangeError(message: string, value: number): never {
+    const {start, end} = this.getSupportedRange();
+    throw new NepaliCalendarRangeError(message, value, start, end);
+  }
 }
@@ -0,0 +1,71 @@
+import {AnyCalendarDate, Calendar, CalendarIdentifier} from '../types';
+import {HinduLunisolarCalendar} from './HinduLunisolarCalendar';
+import {NepaliLunarMonthScheme} from '../NepaliLunarDate';
+
+// Vikram Samvat years are counted from 57 BCE
+const VIKRAM_SAMVAT_EPOCH_YEAR = -57;
+
+const CHAITRA = 12;
+const KARTIK = 7;
+
+export interface VikramSamvatCalendarOptions {
+  /**
+   * The month that begins the year: Chaitra in North India (chaitradi), or Kartik in Gujarat and
+   * neighbouring regions (kartikadi), where the year begins the day after Diwali.
+   * @default 'chaitra'
+   */
+  newYear?: 'chaitra' | 'kartik',
+  /**
+   * How months are named: `purnimanta` months end at the full moon, as in North India, and `amanta`
+   * months end at the new moon, as in Gujarat, Maharashtra and South India.
+   * @default 'purnimanta'
+   */
+  months?: NepaliLunarMonthScheme
+}
+
+/**
+ * The Vikram Samvat calendar is the lunisolar calendar used by Hindus in India. Years are counted from
+ * 57 BCE and begin at the new moon of Chaitra, or of Kartik in the kartikadi reckoning, so a kartikadi year
+ * begins about seven months after the chaitradi year with the same number. This is distinct from the
+ * solar Bikram Sambat calendar of Nepal, implemented by `NepaliCalendar`.
+ *
+ * Months run from one new moon to the next and are numbered in order within the year, so a year with an
+ * adhik (intercalary) month has 13. Purnimanta reckoning, where months run from one full moon to the next,
+ * numbers the months the same way and only names them differently: the days after the full moon of a
+ * regular month belong to the next month, and an adhik month splits the regular month of the same name
+ * in two. Use `getMonthName` to find the name of the month of a date and whether it is adhik.
+ *
+ * New moons and months are computed astronomically for sunrise in Kathmandu, so a month beginning
+ * within minutes of sunrise may start a day apart from almanacs for other places in India.
+ */
+export class VikramSamvatCalendar extends HinduLunisolarCalendar {
+  identifier: CalendarIdentifier = 'vikram';
+  readonly newYear: 'chaitra' | 'kartik';
+  readonly months: NepaliLunarMonthScheme;
+
+  constructor(options: VikramSamvatCalendarOptions = {}) {
+    const {newYear = 'chaitra', months = 'purnimanta'} = options;
+    super(newYear === 'chaitra' ? CHAITRA : KARTIK, months, VIKRAM_SAMVAT_EPOCH_YEAR);
+    this.newYear = newYear;
+    this.months = months;
+  }
+
+  getEras(): string[] {
+    return ['VS'];
+  }
+
+  isEqual(other: Calendar): boolean {
+    // The regional variants number their years or name their months differently, so dates must be converted between them
+    return other instanceof VikramSamvatCalendar && other.newYear === this.newYear && other.months === this.months;
+  }
+
+  /**
+   * Returns the name of the month of the given date, numbered from 1 for Chaitra to 12 for Phalguna,
+   * and whether it is an adhik month. In purnimanta reckoning the days after the full moon of a regular
+   * month are in the next month.
+   */
+  getMonthName(date: AnyCalendarDate): {month: number, adhik: boolean} {
+    let {name, adhik} = this.getLunarMonthName(date);
+    return {month: name % 12 + 1, adhik};
+  }
+}
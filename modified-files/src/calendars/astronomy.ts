@@ -0,0 +1,192 @@
+// Offline astronomical computations for the Hindu calendars. The sun follows the Surya Siddhanta
+// for the solar months, as traditional Nepali almanacs (panchanga) do, and modern algorithms for the lunar phase.
+
+import {mod} from '../utils';
+
+const RADIANS = Math.PI / 180;
+
+// Julian day of the start of the Kali Yuga, when the mean sidereal longitude of the sun was 0.
+const KALI_EPOCH = 588465.5;
+
+// Sidereal year of the Surya Siddhanta: civil days per revolution of the sun in a mahayuga.
+const SIDEREAL_YEAR = 1577917828 / 4320000;
+
+// Sidereal longitude of the sun's apogee (mandocca), 77°17'.
+const SUN_APOGEE = 77 + 17 / 60;
+
+// Kathmandu, where Nepali almanacs reckon sunrise
+export const KATHMANDU_LATITUDE = 27.7172;
+export const KATHMANDU_LONGITUDE = 85.324;
+
+// Nepal Time, UTC+05:45, as a fraction of a day
+export const NEPAL_TIME_OFFSET = 5.75 / 24;
+
+/**
+ * Returns the true sidereal longitude of the sun in degrees at the given Julian day,
+ * applying the equation of center with the Surya Siddhanta's varying epicycle.
+ */
+export function getSiderealSunLongitude(jd: number): number {
+  let meanLongitude = mod((jd - KALI_EPOCH) / SIDEREAL_YEAR * 360, 360);
+  let anomaly = (meanLongitude - SUN_APOGEE) * RADIANS;
+
+  // The epicycle shrinks from 14° at the apsides to 13°40' at the quadrants.
+  let periphery = 14 - (20 / 60) * Math.abs(Math.sin(anomaly));
+  let equation = Math.asin(periphery / 360 * Math.sin(anomaly)) / RADIANS;
+
+  return mod(meanLongitude - equation, 360);
+}
+
+/**
+ * Returns the Julian day at which the sun enters the given rashi (0 = Mesha, 11 = Meena),
+ * i.e. the solar sankranti, closest to the given estimate.
+ */
+export function getSankranti(rashi: number, estimate: number): number {
+  let target = rashi * 30;
+  let jd = estimate;
+  for (let i = 0; i < 20; i++) {
+    let delta = mod(target - getSiderealSunLongitude(jd) + 180, 360) - 180;
+    if (Math.abs(delta) < 1e-9) {
+      break;
+    }
+
+    // The sun moves just under one degree a day.
+    jd += delta / (360 / SIDEREAL_YEAR);
+  }
+
+  return jd;
+}
+
+// Periodic terms for the longitude of the moon from Meeus, Astronomical Algorithms, table 47.A:
+// multiples of D, M, M' and F, and the coefficient of the sine in millionths of a degree.
+const MOON_LONGITUDE_TERMS = [
+  [0, 0, 1, 0, 6288774], [2, 0, -1, 0, 1274027], [2, 0, 0, 0, 658314], [0, 0, 2, 0, 213618],
+  [0, 1, 0, 0, -185116], [0, 0, 0, 2, -114332], [2, 0, -2, 0, 58793], [2, -1, -1, 0, 57066],
+  [2, 0, 1, 0, 53322], [2, -1, 0, 0, 45758], [0, 1, -1, 0, -40923], [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383], [2, 0, 0, -2, 15327], [0, 0, 1, 2, -12528], [0, 0, 1, -2, 10980],
+  [4, 0, -1, 0, 10675], [0, 0, 3, 0, 10034], [4, 0, -2, 0, 8548], [2, 1, -1, 0, -7888],
+  [2, 1, 0, 0, -6766], [1, 0, -1, 0, -5163], [1, 1, 0, 0, 4987], [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994], [4, 0, 0, 0, 3861], [2, 0, -3, 0, 3665], [0, 1, -2, 0, -2689],
+  [2, 0, -1, 2, -2602], [2, -1, -2, 0, 2390], [1, 0, 1, 0, -2348], [2, -2, 0, 0, 2236],
+  [0, 1, 2, 0, -2120], [0, 2, 0, 0, -2069], [2, -2, -1, 0, 2048]
+];
+
+// The moon gains about 12.19 degrees a day on the sun.
+const SYNODIC_MOTION = 360 / 29.530588853;
+
+function getJulianCenturies(jd: number) {
+  return (jd - 2451545) / 36525;
+}
+
+/** Returns the apparent tropical longitude of the sun in degrees at the given Julian day. */
+export function getSunLongitude(jd: number): number {
+  let t = getJulianCenturies(jd);
+  let meanLongitude = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+  let anomaly = (357.52911 + 35999.05029 * t) * RADIANS;
+  let center = (1.914602 - 0.004817 * t) * Math.sin(anomaly)
+    + (0.019993 - 0.000101 * t) * Math.sin(2 * anomaly)
+    + 0.000289 * Math.sin(3 * anomaly);
+
+  // Aberration
+  return mod(meanLongitude + center - 0.00569, 360);
+}
+
+/** Returns the tropical longitude of the moon in degrees at the given Julian day. */
+export function getMoonLongitude(jd: number): number {
+  let t = getJulianCenturies(jd);
+  let meanLongitude = 218.3164477 + 481267.88123421 * t;
+  let elongation = (297.8501921 + 445267.1114034 * t) * RADIANS;
+  let sunAnomaly = (357.5291092 + 35999.0502909 * t) * RADIANS;
+  let moonAnomaly = (134.9633964 + 477198.8675055 * t) * RADIANS;
+  let latitudeArgument = (93.2720950 + 483202.0175233 * t) * RADIANS;
+  let eccentricity = 1 - 0.002516 * t - 0.0000074 * t * t;
+
+  let sum = 3958 * Math.sin((119.75 + 131.849 * t) * RADIANS)
+    + 1962 * Math.sin(meanLongitude * RADIANS - latitudeArgument)
+    + 318 * Math.sin((53.09 + 479264.29 * t) * RADIANS);
+
+  for (let [d, m, mp, f, coefficient] of MOON_LONGITUDE_TERMS) {
+    let term = coefficient * Math.sin(d * elongation + m * sunAnomaly + mp * moonAnomaly + f * latitudeArgument);
+    sum += term * eccentricity ** Math.abs(m);
+  }
+
+  return mod(meanLongitude + sum / 1e6, 360);
+}
+
+/** Returns the angle in degrees by which the moon leads the sun, from 0 at new moon to 180 at full moon. */
+export function getLunarPhase(jd: number): number {
+  return mod(getMoonLongitude(jd) - getSunLongitude(jd), 360);
+}
+
+/** Returns the Julian day closest to the given estimate at which the moon leads the sun by the given angle. */
+function getLunarPhaseTime(phase: number, estimate: number): number {
+  let jd = estimate;
+  for (let i = 0; i < 20; i++) {
+    let delta = mod(getLunarPhase(jd) - phase + 180, 360) - 180;
+    if (Math.abs(delta) < 1e-7) {
+      break;
+    }
+
+    jd -= delta / SYNODIC_MOTION;
+  }
+
+  return jd;
+}
+
+/** Returns the Julian day of the new moon closest to the given estimate. */
+export function getNewMoon(estimate: number): number {
+  return getLunarPhaseTime(0, estimate);
+}
+
+/** Returns the Julian day of the first full moon after the given Julian day. */
+export function getFullMoonAfter(jd: number): number {
+  let fullMoon = getLunarPhaseTime(180, jd + mod(180 - getLunarPhase(jd), 360) / SYNODIC_MOTION);
+  return fullMoon <= jd ? getLunarPhaseTime(180, fullMoon + 29.53) : fullMoon;
+}
+
+/** Returns the Julian day of the last new moon at or before the given Julian day. */
+export function getNewMoonBefore(jd: number): number {
+  let newMoon = getNewMoon(jd - getLunarPhase(jd) / SYNODIC_MOTION);
+  return newMoon > jd ? getNewMoon(newMoon - 29.53) : newMoon;
+}
+
+/** Returns the Julian day of the first new moon after the given Julian day. */
+export function getNewMoonAfter(jd: number): number {
+  let newMoon = getNewMoon(jd + (360 - getLunarPhase(jd)) / SYNODIC_MOTION);
+  return newMoon <= jd ? getNewMoon(newMoon + 29.53) : newMoon;
+}
+
+/**
+ * Returns the Julian day of sunrise at the given latitude and longitude (east positive) on the
+ * day whose noon at Greenwich is the given whole Julian day, using the NOAA sunrise equation.
+ */
+export function getSunrise(day: number, latitude: number, longitude: number): number {
+  let solarNoon = day - longitude / 360;
+  let anomaly = mod(357.5291 + 0.98560028 * (solarNoon - 2451545), 360) * RADIANS;
+  let center = 1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly);
+  let eclipticLongitude = mod(anomaly / RADIANS + center + 180 + 102.9372, 360) * RADIANS;
+  let transit = solarNoon + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+  let declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(23.44 * RADIANS));
+  let hourAngle = Math.acos(
+    (Math.sin(-0.833 * RADIANS) - Math.sin(latitude * RADIANS) * Math.sin(declination)) /
+    (Math.cos(latitude * RADIANS) * Math.cos(declination))
+  );
+
+  return transit - hourAngle / (2 * Math.PI);
+}
+
+/**
+ * Returns the month of the lunar month starting at the given new moon, numbered like the solar months from
+ * 1 for Baisakh to 12 for Chaitra. It is named after the rashi the sun is in, e.g. Baisakh for Mesha.
+ */
+export function getLunarMonthAtNewMoon(newMoon: number): number {
+  return Math.floor(getSiderealSunLongitude(newMoon) / 30) + 1;
+}
+
+/**
+ * Returns the first day of the lunar month or paksha starting at the given new or full moon:
+ * the first day whose sunrise in Kathmandu follows it.
+ */
+export function getLunarMonthStart(moon: number): number {
+  let day = Math.floor(moon + 0.5 + NEPAL_TIME_OFFSET);
+  return getSunrise(day, KATHMANDU_LATITUDE, KATHMANDU_LONGITUDE) > moon ? day : day + 1;
+}
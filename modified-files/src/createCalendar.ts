@@ -13,16 +13,25 @@
 import {BuddhistCalendar} from './calendars/BuddhistCalendar';
 import {Calendar, CalendarIdentifier} from './types';
 import {CopticCalendar, EthiopicAmeteAlemCalendar, EthiopicCalendar} from './calendars/EthiopicCalendar';
+import {getRegisteredCalendar} from './calendarRegistry';
 import {GregorianCalendar} from './calendars/GregorianCalendar';
 import {HebrewCalendar} from './calendars/HebrewCalendar';
 import {IndianCalendar} from './calendars/IndianCalendar';
 import {IslamicCivilCalendar, IslamicTabularCalendar, IslamicUmalquraCalendar} from './calendars/IslamicCalendar';
 import {JapaneseCalendar} from './calendars/JapaneseCalendar';
-import {NepaliCalendar} from './calendars/NepaliCalendar';
 import {PersianCalendar} from './calendars/PersianCalendar';
 import {TaiwanCalendar} from './calendars/TaiwanCalendar';
-/** Creates a `Calendar` instance from a Unicode calendar identifier string. */
-export function createCalendar(name: CalendarIdentifier): Calendar {
+
+/**
+ * Creates a `Calendar` instance from a Unicode calendar identifier string, or the identifier or alias
+ * of a calendar registered with `registerCalendar`.
+ */
+export function createCalendar(name: CalendarIdentifier | (string & {})): Calendar {
+  let registered = getRegisteredCalendar(name);
+  if (registered) {
+    return registered.registration.createCalendar();
+  }
+
   switch (name) {
     case 'buddhist':
       return new BuddhistCalendar();
@@ -48,8 +57,6 @@ export function createCalendar(name: CalendarIdentifier): Calendar {
       return new PersianCalendar();
     case 'roc':
       return new TaiwanCalendar();
-    case 'nepali':
-      return new NepaliCalendar();
     case 'gregory':
     default:
       return new GregorianCalendar();
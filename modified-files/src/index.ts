@@ -10,6 +10,9 @@
  * governing permissions and limitations under the License.
  */
 
+// Registers the calendars added by this package before any of the exports below can look them up
+import './registerNepaliCalendars';
+
 export type {
   AnyCalendarDate,
   AnyTime,
@@ -27,6 +30,18 @@ export type {
   CycleOptions,
   CycleTimeOptions
 } from './types';
+export type {NepaliCalendarDiscrepancy, NepaliCalendarMode, NepaliCalendarOptions, NepaliMonthLengths} from './calendars/NepaliCalendar';
+export type {VikramSamvatCalendarOptions} from './calendars/VikramSamvatCalendar';
+export type {CalendarDateTimeFormat, CalendarRegistration} from './calendarRegistry';
+export type {NepaliDateWordsFormatOptions} from './NepaliDateWordsFormat';
+export type {NepaliDatePatternFormatOptions} from './NepaliDatePatternFormat';
+export type {NepaliMonthGrid, NepaliMonthGridAnnotators, NepaliMonthGridCell, NepaliMonthGridOptions} from './NepaliMonthGrid';
+export type {NepaliDualDateTimeFormatOptions, NepaliDualDateTimeFormatPart, NepaliDualDateTimeRangeFormatPart} from './NepaliDualDateTimeFormat';
+export type {NepaliDateParseField} from './NepaliDateParser';
+export type {NepaliFiscalPeriod} from './NepaliFiscalYear';
+export type {NepaliLunarDate, NepaliLunarMonthScheme, NepaliPaksha} from './NepaliLunarDate';
+export type {NepaliDateTimeFormatOptions, NepaliDateTimeFormatValue, NepaliLunarPartType} from './NepaliDateTimeFormat';
+export type {NepaliBusinessCalendarOptions, NepaliHolidayProvider, NepaliObservance} from './NepaliBusinessCalendar';
 
 export {CalendarDate, CalendarDateTime, Time, ZonedDateTime} from './CalendarDate';
 export {GregorianCalendar} from './calendars/GregorianCalendar';
@@ -38,8 +53,16 @@ export {IndianCalendar} from './calendars/IndianCalendar';
 export {IslamicCivilCalendar, IslamicTabularCalendar, IslamicUmalquraCalendar} from './calendars/IslamicCalendar';
 export {HebrewCalendar} from './calendars/HebrewCalendar';
 export {EthiopicCalendar, EthiopicAmeteAlemCalendar, CopticCalendar} from './calendars/EthiopicCalendar';
-export {NepaliCalendar} from './calendars/NepaliCalendar';
+export {NepalSambatCalendar} from './calendars/NepalSambatCalendar';
+export {VikramSamvatCalendar} from './calendars/VikramSamvatCalendar';
+export {NepaliCalendar, NepaliCalendarRangeError, getNepaliCalendarDiscrepancies, registerNepaliMonthLengths, toNepaliCalendar} from './calendars/NepaliCalendar';
 export {createCalendar} from './createCalendar';
+export {formatsCalendarDates, getLocaleCalendar, getRegisteredCalendar, registerCalendar, unregisterCalendar} from './calendarRegistry';
+export {NepaliDateWordsFormat} from './NepaliDateWordsFormat';
+export {NepaliDatePatternFormat} from './NepaliDatePatternFormat';
+export {NepaliDualDateTimeFormat} from './NepaliDualDateTimeFormat';
+export {getNepaliMonthGrid} from './NepaliMonthGrid';
+export {installNepaliIntlPolyfill, uninstallNepaliIntlPolyfill} from './NepaliIntlPolyfill';
 export {
   toCalendarDate,
   toCalendarDateTime,
@@ -86,7 +109,27 @@ export {
   parseAbsolute,
   parseAbsoluteToLocal,
   parseZonedDateTime,
-  parseDuration
+  parseDuration,
+  parseNepaliDate,
+  parseNepaliDateTime,
+  parseNepaliZonedDateTime,
+  nepaliDateToString,
+  nepaliDateTimeToString,
+  nepaliZonedDateTimeToString
 } from './string';
 export {DateFormatter} from './DateFormatter';
 export {NepaliDateTimeFormat} from './NepaliDateTimeFormat';
+export {NepalSambatDateTimeFormat} from './NepalSambatDateTimeFormat';
+export {NepaliDateParser, NepaliDateParseError} from './NepaliDateParser';
+export {
+  getNepaliFiscalYear,
+  getNepaliFiscalMonth,
+  getNepaliFiscalQuarter,
+  getNepaliFiscalTrimester,
+  startOfNepaliFiscalYear,
+  endOfNepaliFiscalYear,
+  formatNepaliFiscalYear,
+  getNepaliFiscalPeriodRange
+} from './NepaliFiscalYear';
+export {NepaliBusinessCalendar, nepaliFixedHolidays} from './NepaliBusinessCalendar';
+export {getNepaliLunarDate, getNepaliLunarDateNames} from './NepaliLunarDate';
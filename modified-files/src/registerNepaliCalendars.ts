@@ -0,0 +1,24 @@
+import {NepalSambatCalendar} from './calendars/NepalSambatCalendar';
+import {NepalSambatDateTimeFormat} from './NepalSambatDateTimeFormat';
+import {NepaliCalendar} from './calendars/NepaliCalendar';
+import {NepaliDateTimeFormat} from './NepaliDateTimeFormat';
+import {registerCalendar} from './calendarRegistry';
+import {VikramSamvatCalendar} from './calendars/VikramSamvatCalendar';
+
+// The calendars added by this package are registered like any other, so they can be replaced or given more aliases
+registerCalendar('nepali', {
+  createCalendar: () => new NepaliCalendar(),
+  createDateTimeFormat: (locale, options) => new NepaliDateTimeFormat(locale, options),
+  aliases: ['bikram-sambat']
+});
+
+registerCalendar('newar', {
+  createCalendar: () => new NepalSambatCalendar(),
+  createDateTimeFormat: (locale, options) => new NepalSambatDateTimeFormat(locale, options),
+  aliases: ['nepal-sambat']
+});
+
+registerCalendar('vikram', {
+  createCalendar: () => new VikramSamvatCalendar(),
+  aliases: ['vikram-samvat']
+});
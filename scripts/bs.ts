@@ -0,0 +1,260 @@
+// Offline command-line tool for Bikram Sambat dates, built on the patched @internationalized/date.
+//
+// Usage: tsx scripts/bs.ts <command> [arguments] [--format text|json|csv] [--locale <locale>]
+//
+//   to-bs <date>[..<date>]   Convert Gregorian (AD) dates such as 2024-04-13 to Bikram Sambat
+//   to-ad <date>[..<date>]   Convert Bikram Sambat dates such as 2081-01-01 or "1 Baisakh 2081" to AD
+//   cal [year [month]]       Print a Bikram Sambat month, or a whole year, with Gregorian days alongside
+//   diff <date> <date>       Show the number of days between two Bikram Sambat dates
+//
+// to-bs and to-ad read one date or range per line from stdin when no date is given or the date is "-".
+
+import {
+  CalendarDate,
+  getNepaliMonthGrid,
+  GregorianCalendar,
+  NepaliCalendar,
+  NepaliDateParser,
+  NepaliDateTimeFormat,
+  NepaliMonthGrid,
+  parseDate,
+  toCalendar,
+  today
+} from '@internationalized/date';
+
+type OutputFormat = 'text' | 'json' | 'csv';
+
+interface Options {
+  format: OutputFormat,
+  locale: string
+}
+
+const nepaliCalendar = new NepaliCalendar();
+const gregorianCalendar = new GregorianCalendar();
+
+const WEEKDAY_HEADER = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+const CELL_WIDTH = 5;
+
+function usage(): never {
+  console.error('Usage: bs <to-bs|to-ad|cal|diff> [arguments] [--format text|json|csv] [--locale <locale>]');
+  process.exit(2);
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+function dateToString(date: CalendarDate) {
+  return `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+function parseArgs(argv: string[]): {command: string, args: string[], options: Options} {
+  const args: string[] = [];
+  const options: Options = {format: 'text', locale: 'en-US'};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format' || arg === '--locale') {
+      const value = argv[++i];
+      if (value === undefined) {
+        usage();
+      }
+
+      if (arg === '--format') {
+        if (value !== 'text' && value !== 'json' && value !== 'csv') {
+          throw new Error('Invalid format: ' + value);
+        }
+
+        options.format = value;
+      } else {
+        options.locale = value;
+      }
+    } else {
+      args.push(arg);
+    }
+  }
+
+  if (args.length === 0) {
+    usage();
+  }
+
+  return {command: args[0], args: args.slice(1), options};
+}
+
+/** Parses a date or a range of dates separated by "..", returning every date in the range. */
+function parseDates(input: string, parse: (value: string) => CalendarDate): CalendarDate[] {
+  const [startText, endText] = input.split('..');
+  const start = parse(startText.trim());
+  const end = endText === undefined ? start : parse(endText.trim());
+  if (end.compare(start) < 0) {
+    throw new Error('Range ends before it starts: ' + input);
+  }
+
+  const dates: CalendarDate[] = [];
+  for (let date = start; date.compare(end) <= 0; date = date.add({days: 1})) {
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+function convert(date: CalendarDate, formatter: NepaliDateTimeFormat, weekdayFormatter: Intl.DateTimeFormat) {
+  const gregorian = toCalendar(date, gregorianCalendar);
+  const instant = new Date(Date.UTC(gregorian.year, gregorian.month - 1, gregorian.day));
+  return {
+    ad: dateToString(gregorian),
+    bs: dateToString(toCalendar(date, nepaliCalendar)),
+    weekday: weekdayFormatter.format(instant),
+    formatted: formatter.format(date)
+  };
+}
+
+function escapeCsv(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function printRows(rows: Array<Record<string, string | number>>, options: Options, text: (row: Record<string, string | number>) => string) {
+  if (options.format === 'json') {
+    console.log(JSON.stringify(rows, null, 2));
+  } else if (options.format === 'csv') {
+    if (rows.length > 0) {
+      console.log(Object.keys(rows[0]).join(','));
+    }
+
+    for (const row of rows) {
+      console.log(Object.values(row).map(escapeCsv).join(','));
+    }
+  } else {
+    for (const row of rows) {
+      console.log(text(row));
+    }
+  }
+}
+
+async function readStdinLines(): Promise<string[]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString('utf8').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+async function runConvert(toNepali: boolean, args: string[], options: Options) {
+  const parser = new NepaliDateParser(options.locale);
+  const parse = toNepali ? (value: string) => parseDate(value) : (value: string) => parser.parse(value);
+  const inputs = args.length === 0 || args[0] === '-' ? await readStdinLines() : args;
+
+  const formatter = new NepaliDateTimeFormat(options.locale, {dateStyle: 'long', timeZone: 'UTC'});
+  const weekdayFormatter = new Intl.DateTimeFormat(options.locale, {weekday: 'long', timeZone: 'UTC'});
+  const rows = inputs.flatMap(input => parseDates(input, parse)).map(date => convert(date, formatter, weekdayFormatter));
+
+  printRows(rows, options, row => toNepali
+    ? `${row.ad} AD = ${row.bs} BS (${row.formatted}, ${row.weekday})`
+    : `${row.bs} BS = ${row.ad} AD (${row.weekday})`
+  );
+}
+
+/** Returns the cells of a grid that belong to its month, leaving out the days that fill the first and last weeks. */
+function getMonthDays(grid: NepaliMonthGrid) {
+  return grid.weeks.flat().flatMap(cell => cell.date && !cell.isOutsideMonth ? [{...cell, date: cell.date}] : []);
+}
+
+/** Lays out a month like cal(1), with the Gregorian day of month to the right of each Bikram Sambat day. */
+export function formatMonth(year: number, month: number, options: Options): string[] {
+  const grid = getNepaliMonthGrid(year, month, {locale: options.locale, calendar: nepaliCalendar});
+  const monthFormatter = new NepaliDateTimeFormat(options.locale, {month: 'long', year: 'numeric', timeZone: 'UTC'});
+  const gregorianFormatter = new Intl.DateTimeFormat(options.locale, {month: 'short', year: 'numeric', timeZone: 'UTC'});
+
+  const cells = getMonthDays(grid);
+  const toInstant = (date: CalendarDate) => new Date(Date.UTC(date.year, date.month - 1, date.day));
+  const first = cells[0].gregorianDate;
+  const last = cells[cells.length - 1].gregorianDate;
+  const title = `${monthFormatter.format(cells[0].date)} (${gregorianFormatter.formatRange(toInstant(first), toInstant(last))})`;
+
+  const width = 7 * (CELL_WIDTH + 1) - 1;
+  const lines = [title.padStart(Math.floor((width + title.length) / 2))];
+  lines.push(grid.weekdays.map(day => WEEKDAY_HEADER[['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'].indexOf(day)].padStart(2).padEnd(CELL_WIDTH)).join(' ').trimEnd());
+  for (const week of grid.weeks) {
+    lines.push(week.map(cell => cell.date && !cell.isOutsideMonth
+      ? String(cell.date.day).padStart(2) + ' ' + String(cell.gregorianDate.day).padStart(2)
+      : ' '.repeat(CELL_WIDTH)
+    ).join(' ').trimEnd());
+  }
+
+  return lines;
+}
+
+function runCalendar(args: string[], options: Options) {
+  const current = toCalendar(today('Asia/Kathmandu'), nepaliCalendar);
+  const year = args[0] === undefined ? current.year : Number(args[0]);
+  const months = args[1] !== undefined ? [Number(args[1])] : args[0] !== undefined ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] : [current.month];
+  if (!Number.isInteger(year) || months.some(month => !Number.isInteger(month) || month < 1 || month > 12)) {
+    throw new Error('Invalid year or month: ' + args.join(' '));
+  }
+
+  const {start, end} = nepaliCalendar.getSupportedRange();
+  if (year < start.year || year > end.year) {
+    throw new Error(`Year outside supported range ${start.year}-${end.year}: ${year}`);
+  }
+
+  if (options.format === 'text') {
+    console.log(months.map(month => formatMonth(year, month, options).join('\n')).join('\n\n'));
+    return;
+  }
+
+  const rows = months.flatMap(month => {
+    const grid = getNepaliMonthGrid(year, month, {locale: options.locale, calendar: nepaliCalendar});
+    return getMonthDays(grid).map((cell, index) => ({
+      bs: dateToString(cell.date),
+      ad: dateToString(cell.gregorianDate),
+      weekday: cell.weekday,
+      week: Math.floor((grid.weeks[0].findIndex(first => !first.isOutsideMonth) + index) / 7) + 1
+    }));
+  });
+
+  printRows(rows, options, () => '');
+}
+
+function runDiff(args: string[], options: Options) {
+  if (args.length !== 2) {
+    usage();
+  }
+
+  const parser = new NepaliDateParser(options.locale);
+  const [from, to] = args.map(arg => parser.parse(arg));
+  const days = to.compare(from);
+  printRows([{from: dateToString(from), to: dateToString(to), days}], options, row => `${row.days} days`);
+}
+
+async function main() {
+  const {command, args, options} = parseArgs(process.argv.slice(2));
+  switch (command) {
+    case 'to-bs':
+      return runConvert(true, args, options);
+    case 'to-ad':
+      return runConvert(false, args, options);
+    case 'cal':
+      return runCalendar(args, options);
+    case 'diff':
+      return runDiff(args, options);
+    default:
+      usage();
+  }
+}
+
+if (require.main === module) {
+  // Exit quietly when the output is piped into e.g. head, which closes the pipe early
+  process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+    if (err.code !== 'EPIPE') {
+      throw err;
+    }
+
+    process.exit(0);
+  });
+
+  main().catch(err => {
+    console.error('bs: ' + (err instanceof Error ? err.message : err));
+    process.exit(1);
+  });
+}
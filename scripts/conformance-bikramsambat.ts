@@ -0,0 +1,446 @@
+// Bikram Sambat conformance suite
+//
+// Checks a build of the patched package against golden fixtures:
+//
+//   - every day in the supported range round-trips between GregorianCalendar and NepaliCalendar through
+//     toCalendar, and fromJulianDay, toJulianDay, getDaysInMonth and getDaysInYear agree with each other
+//   - the anchor dates in fixtures/bikram-sambat-anchors.json (new year days, fiscal year starts) convert
+//     as published
+//   - NepaliDateTimeFormat output for the en, ne and en-u-ca-nepali locales and a matrix of options
+//     matches fixtures/nepali-date-time-format.json, as does the output of NepaliDateTimeFormat and
+//     NepaliDualDateTimeFormat for CalendarDate, CalendarDateTime and ZonedDateTime values and ranges at the
+//     first and last supported days
+//   - for the same matrix, NepaliDateTimeFormat produces the parts of the Gregorian pattern, with the year,
+//     numeric month and day padded and sized as Intl does for a Gregorian date with the same fields
+//   - the estimated dates of the astronomical mode differ from the published data on no more days than they
+//     do now, and the hybrid mode reports the years it computes as estimated
+//   - getNepaliMonthGrid lays out the first and last supported months, and an ordinary one, for every first
+//     day of the week, with consecutive days and no Bikram Sambat dates outside the supported range
+//   - when checking the installed package, bs cal lays out every month of the first and last supported years
+//
+// Usage: tsx scripts/conformance-bikramsambat.ts [entry point] [--update]
+//
+// The entry point defaults to @internationalized/date, and can be the sources (src/index.ts) or the
+// build (dist/main.js) of the package, so that gen-patch.sh checks both. --update rewrites the format
+// fixtures instead of comparing against them. Intl output differs between ICU versions, so update the
+// fixtures together with the Node.js version used to generate patches.
+
+type Library = typeof import('@internationalized/date');
+
+interface Anchor {
+  bs: string,
+  ad: string,
+  source: string
+}
+
+const LOCALES = ['en', 'ne', 'en-u-ca-nepali'];
+
+// The first and last days of the data, a 32 day month, the last day of a year and an ordinary date
+const SAMPLE_DATES = ['1970-01-01', '2000-12-30', '2081-04-32', '2081-12-30', '2099-12-30'];
+
+// Dates that also exist in the Gregorian calendar, with one and two digit months and days
+const WIDTH_SAMPLE_DATES = ['1970-01-01', '2081-04-05', '2082-11-28'];
+
+// The days of 1970-2099 BS that the astronomical mode dates differently from the published data: 118 month
+// starts are a day off, in 78 years. A change to the computation must not make this worse
+const MAX_ESTIMATED_DAYS_OFF = 3621;
+
+const FIRST_DAYS_OF_WEEK = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const MONTH_WIDTHS = ['numeric', '2-digit', 'long', 'short', 'narrow'] as const;
+const NUMERIC_WIDTHS = ['numeric', '2-digit'] as const;
+const TEXT_WIDTHS = ['long', 'short', 'narrow'] as const;
+
+/** Returns the option combinations to snapshot, without the time zone. */
+function getOptionMatrix(): Intl.DateTimeFormatOptions[] {
+  const matrix: Intl.DateTimeFormatOptions[] = [];
+  for (const dateStyle of ['full', 'long', 'medium', 'short'] as const) {
+    matrix.push({dateStyle}, {dateStyle, timeStyle: 'short'});
+  }
+
+  for (const year of NUMERIC_WIDTHS) {
+    matrix.push({year});
+    for (const month of MONTH_WIDTHS) {
+      for (const day of NUMERIC_WIDTHS) {
+        matrix.push({year, month, day});
+      }
+    }
+  }
+
+  for (const month of MONTH_WIDTHS) {
+    matrix.push({month}, {year: 'numeric', month});
+  }
+
+  for (const day of NUMERIC_WIDTHS) {
+    matrix.push({day}, {month: 'long', day});
+  }
+
+  for (const width of TEXT_WIDTHS) {
+    matrix.push(
+      {year: 'numeric', month: 'long', day: 'numeric', weekday: width},
+      {year: 'numeric', month: 'long', day: 'numeric', era: width}
+    );
+  }
+
+  matrix.push(
+    {year: 'numeric', month: 'numeric', day: 'numeric', numberingSystem: 'deva'},
+    {year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: true},
+    {year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: false}
+  );
+
+  return matrix;
+}
+
+// CalendarDate.toString() is always in the Gregorian calendar, so print the fields of the date's own calendar
+function dateToString(date: {year: number, month: number, day: number}) {
+  return `${String(date.year).padStart(4, '0')}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+function checkRoundTrips(lib: Library, failures: string[]): number {
+  const nepali = new lib.NepaliCalendar();
+  const gregorian = new lib.GregorianCalendar();
+  const {start, end} = nepali.getSupportedRange();
+  const startJulianDay = nepali.toJulianDay(start);
+  const endJulianDay = nepali.toJulianDay(end);
+
+  let previous = start;
+  let daysInYear = 0;
+  for (let jd = startJulianDay; jd <= endJulianDay; jd++) {
+    const date = nepali.fromJulianDay(jd);
+    const gregorianDate = gregorian.fromJulianDay(jd);
+    const converted = lib.toCalendar(gregorianDate, nepali);
+    const back = lib.toCalendar(date, gregorian);
+
+    if (nepali.toJulianDay(date) !== jd) {
+      failures.push(`toJulianDay(fromJulianDay(${jd})) is ${nepali.toJulianDay(date)}`);
+    }
+
+    if (converted.compare(date) !== 0 || back.compare(gregorianDate) !== 0) {
+      failures.push(`${dateToString(gregorianDate)} AD converts to ${dateToString(converted)} BS and ${dateToString(date)} BS back to ${dateToString(back)} AD`);
+    }
+
+    // Each day follows the previous one, and the last day of a month is its length
+    if (jd > startJulianDay) {
+      const isNextDay = date.day === previous.day + 1 && date.month === previous.month && date.year === previous.year;
+      const isNextMonth = date.day === 1 && previous.day === nepali.getDaysInMonth(previous) &&
+        (date.month === previous.month + 1 ? date.year === previous.year : date.month === 1 && previous.month === 12 && date.year === previous.year + 1);
+      if (!isNextDay && !isNextMonth) {
+        failures.push(`${dateToString(date)} BS does not follow ${dateToString(previous)} BS`);
+      }
+
+      if (date.year !== previous.year) {
+        if (nepali.getDaysInYear(previous) !== daysInYear) {
+          failures.push(`getDaysInYear is ${nepali.getDaysInYear(previous)} for ${previous.year} BS, which has ${daysInYear} days`);
+        }
+
+        daysInYear = 0;
+      }
+    }
+
+    daysInYear++;
+    previous = date;
+
+    // Stop early when the data is broken, rather than reporting every following day
+    if (failures.length >= 20) {
+      break;
+    }
+  }
+
+  return endJulianDay - startJulianDay + 1;
+}
+
+function checkAnchors(lib: Library, anchors: Anchor[], failures: string[]) {
+  const nepali = new lib.NepaliCalendar();
+  for (const anchor of anchors) {
+    const [year, month, day] = anchor.bs.split('-').map(Number);
+    const gregorian = dateToString(lib.toCalendar(new lib.CalendarDate(nepali, year, month, day), new lib.GregorianCalendar()));
+    const bs = dateToString(lib.toCalendar(lib.parseDate(anchor.ad), nepali));
+    if (gregorian !== anchor.ad || bs !== anchor.bs) {
+      failures.push(`${anchor.bs} BS should be ${anchor.ad} AD (${anchor.source}), but converts to ${gregorian} AD and back from ${bs} BS`);
+    }
+  }
+}
+
+/**
+ * Counts the days of the published data that the astronomical mode dates differently, and checks that the count
+ * stays within MAX_ESTIMATED_DAYS_OFF and that the hybrid mode flags the years around the data as estimated.
+ */
+function checkEstimatedDates(lib: Library, failures: string[]): number {
+  const nepali = new lib.NepaliCalendar();
+  const astronomical = new lib.NepaliCalendar({mode: 'astronomical'});
+  const hybrid = new lib.NepaliCalendar({mode: 'hybrid'});
+  const {start, end} = nepali.getSupportedRange();
+
+  let daysOff = 0;
+  for (let jd = nepali.toJulianDay(start); jd <= nepali.toJulianDay(end); jd++) {
+    const date = nepali.fromJulianDay(jd);
+    const estimated = astronomical.fromJulianDay(jd);
+    if (date.year !== estimated.year || date.month !== estimated.month || date.day !== estimated.day) {
+      daysOff++;
+    }
+  }
+
+  if (daysOff > MAX_ESTIMATED_DAYS_OFF) {
+    failures.push(`The astronomical mode dates ${daysOff} days differently from the published data, more than ${MAX_ESTIMATED_DAYS_OFF}`);
+  }
+
+  const sources = [start.year - 1, start.year, end.year, end.year + 1].map(year => hybrid.getDateSource(new lib.CalendarDate(hybrid, year, 1, 1)));
+  if (sources.join() !== 'estimated,table,table,estimated') {
+    failures.push(`The hybrid mode reports the years around the published data as ${sources.join(', ')}`);
+  }
+
+  return daysOff;
+}
+
+/**
+ * Builds the grids of the first and last supported months and of an ordinary month, for every first day of the
+ * week, and checks that they contain the whole month and nothing outside the supported range.
+ */
+function checkMonthGrids(lib: Library, failures: string[]): number {
+  const nepali = new lib.NepaliCalendar();
+  const {start, end} = nepali.getSupportedRange();
+  const startJulianDay = nepali.toJulianDay(start);
+  const endJulianDay = nepali.toJulianDay(end);
+  let count = 0;
+  for (const [year, month] of [[start.year, start.month], [2081, 4], [end.year, end.month]]) {
+    for (const firstDayOfWeek of FIRST_DAYS_OF_WEEK) {
+      for (const fixedWeeks of [false, true]) {
+        const name = `grid ${year}-${month} ${JSON.stringify({firstDayOfWeek, fixedWeeks})}`;
+        count++;
+
+        let grid: ReturnType<Library['getNepaliMonthGrid']>;
+        try {
+          grid = lib.getNepaliMonthGrid(year, month, {firstDayOfWeek, fixedWeeks});
+        } catch (err) {
+          failures.push(`${name} throws ${err}`);
+          continue;
+        }
+
+        const cells = grid.weeks.flat();
+        const days = cells.filter(cell => !cell.isOutsideMonth).map(cell => cell.date?.day);
+        const daysInMonth = nepali.getDaysInMonth(new lib.CalendarDate(nepali, year, month, 1));
+        if (grid.weekdays[0] !== firstDayOfWeek || grid.weeks.some(week => week.length !== 7) || (fixedWeeks && grid.weeks.length !== 6)) {
+          failures.push(`${name} has weeks ${grid.weeks.map(week => week.length).join(', ')} starting on ${grid.weekdays[0]}`);
+        }
+
+        if (days.length !== daysInMonth || days.some((day, index) => day !== index + 1)) {
+          failures.push(`${name} has days ${days.join(', ')}, not 1 to ${daysInMonth}`);
+        }
+
+        for (let index = 0; index < cells.length; index++) {
+          const {date, gregorianDate} = cells[index];
+          const jd = gregorianDate.calendar.toJulianDay(gregorianDate);
+          const isSupported = jd >= startJulianDay && jd <= endJulianDay;
+          if (index > 0 && gregorianDate.compare(cells[index - 1].gregorianDate.add({days: 1})) !== 0) {
+            failures.push(`${name} has ${dateToString(gregorianDate)} AD after ${dateToString(cells[index - 1].gregorianDate)} AD`);
+          }
+
+          if (isSupported ? !date || lib.toCalendar(date, gregorianDate.calendar).compare(gregorianDate) !== 0 : date !== null) {
+            failures.push(`${name} has ${date ? dateToString(date) : null} BS on ${dateToString(gregorianDate)} AD`);
+          }
+        }
+      }
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Lays out every month of the first and last supported years as `bs cal` does, and checks that each shows all of
+ * its days. The command-line tool imports the installed package, so this only runs when checking that.
+ */
+function checkCommandLine(lib: Library, failures: string[]): number {
+  const {formatMonth}: typeof import('./bs') = require('./bs');
+  const nepali = new lib.NepaliCalendar();
+  const {start, end} = nepali.getSupportedRange();
+  let count = 0;
+  for (const year of [start.year, end.year]) {
+    for (let month = 1; month <= 12; month++) {
+      for (const locale of ['en', 'ne']) {
+        const name = `bs cal ${year} ${month} --locale ${locale}`;
+        count++;
+
+        let lines: string[];
+        try {
+          lines = formatMonth(year, month, {format: 'text', locale});
+        } catch (err) {
+          failures.push(`${name} throws ${err}`);
+          continue;
+        }
+
+        // Each cell is five characters and a separator wide, and blank outside the month
+        const days = lines.slice(2).flatMap(line => line.match(/.{1,6}/g) ?? []).filter(cell => cell.trim()).length;
+        const daysInMonth = nepali.getDaysInMonth(new lib.CalendarDate(nepali, year, month, 1));
+        if (days !== daysInMonth) {
+          failures.push(`${name} shows ${days} days, not ${daysInMonth}`);
+        }
+      }
+    }
+  }
+
+  return count;
+}
+
+// Compares the values of parts after converting Devanagari digits, as the ne locale uses them in both calendars
+function normalizeDigits(value: string) {
+  return value.replace(/[\u0966-\u096F]/g, digit => String(digit.charCodeAt(0) - 0x0966));
+}
+
+/**
+ * Formats the sample dates with the option matrix, and compares the parts with those of Intl for the Gregorian
+ * date with the same year, month and day. Weekdays and eras differ between the calendars, and month names are
+ * the Bikram Sambat ones, so only their presence is compared.
+ */
+function checkFieldWidths(lib: Library, failures: string[]): number {
+  const nepali = new lib.NepaliCalendar();
+  let count = 0;
+  for (const locale of LOCALES) {
+    for (const options of getOptionMatrix()) {
+      const formatter = new lib.NepaliDateTimeFormat(locale, {...options, timeZone: 'UTC'});
+      const gregorianFormatter = new Intl.DateTimeFormat(locale, {...options, calendar: 'gregory', timeZone: 'UTC'});
+      for (const bs of WIDTH_SAMPLE_DATES) {
+        const [year, month, day] = bs.split('-').map(Number);
+        const parts = formatter.formatToParts(new lib.CalendarDateTime(nepali, year, month, day, 14, 30));
+        const gregorianParts = gregorianFormatter.formatToParts(Date.UTC(year, month - 1, day, 14, 30));
+        const matches = parts.length === gregorianParts.length && parts.every((part, index) => {
+          const gregorianPart = gregorianParts[index];
+          if (part.type !== gregorianPart.type) {
+            return false;
+          }
+
+          const isName = part.type === 'weekday' || part.type === 'era' || (part.type === 'month' && !/^\d+$/.test(normalizeDigits(gregorianPart.value)));
+          return isName || normalizeDigits(part.value) === normalizeDigits(gregorianPart.value);
+        });
+
+        if (!matches) {
+          const toString = (values: Intl.DateTimeFormatPart[]) => values.map(part => `${part.type}:${part.value}`).join(' ');
+          failures.push(`${locale} ${JSON.stringify(options)} ${bs}: ${toString(parts)} does not match the Gregorian ${toString(gregorianParts)}`);
+        }
+
+        count++;
+      }
+    }
+  }
+
+  return count;
+}
+
+function getFormatSnapshots(lib: Library): Record<string, string> {
+  const nepali = new lib.NepaliCalendar();
+  const snapshots: Record<string, string> = {};
+  const matrix = getOptionMatrix();
+  for (const locale of LOCALES) {
+    for (const options of matrix) {
+      const formatter = new lib.NepaliDateTimeFormat(locale, {...options, timeZone: 'UTC'});
+      for (const bs of SAMPLE_DATES) {
+        const [year, month, day] = bs.split('-').map(Number);
+        // Half past two in the afternoon, so that both the hour and the day period show up
+        const instant = new lib.CalendarDateTime(nepali, year, month, day, 14, 30).toDate('UTC');
+        snapshots[`${locale} ${JSON.stringify(options)} ${bs}`] = formatter.format(instant);
+      }
+    }
+
+    // Ranges collapse shared fields by the Bikram Sambat year, month and day
+    const formatter = new lib.NepaliDateTimeFormat(locale, {year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC'});
+    const toInstant = (bs: string) => {
+      const [year, month, day] = bs.split('-').map(Number);
+      return new lib.CalendarDate(nepali, year, month, day).toDate('UTC');
+    };
+
+    for (const [startDate, endDate] of [['2081-04-01', '2081-04-32'], ['2081-03-31', '2081-04-01'], ['2081-12-30', '2082-01-01']]) {
+      snapshots[`${locale} range ${startDate}..${endDate}`] = formatter.formatRange(toInstant(startDate), toInstant(endDate));
+    }
+
+    Object.assign(snapshots, getDateValueSnapshots(lib, locale));
+  }
+
+  return snapshots;
+}
+
+/**
+ * Formats CalendarDate, CalendarDateTime and ZonedDateTime values, which are formatted from their fields rather
+ * than as instants, at the first and last supported days and in between, with both Bikram Sambat formatters.
+ */
+function getDateValueSnapshots(lib: Library, locale: string): Record<string, string> {
+  const nepali = new lib.NepaliCalendar();
+  const {start, end} = nepali.getSupportedRange();
+  const options: Intl.DateTimeFormatOptions = {dateStyle: 'long', timeStyle: 'short', timeZone: 'Asia/Kathmandu'};
+  const formatters = {
+    single: new lib.NepaliDateTimeFormat(locale, options),
+    dual: new lib.NepaliDualDateTimeFormat(locale, options)
+  };
+
+  // Keyed by the Bikram Sambat date, as the Gregorian dates and time zone offsets of ZonedDateTime.toString()
+  // would make the keys depend on the time zone data
+  const dates = [start, new lib.CalendarDate(nepali, 2081, 4, 32), end];
+  const values = {
+    CalendarDate: dates,
+    CalendarDateTime: dates.map(date => lib.toCalendarDateTime(date, new lib.Time(14, 30))),
+    ZonedDateTime: dates.map(date => lib.toZoned(lib.toCalendarDateTime(date, new lib.Time(23, 30)), 'Asia/Kathmandu')),
+    GregorianCalendarDate: dates.map(date => lib.toCalendar(date, new lib.GregorianCalendar()))
+  };
+
+  const snapshots: Record<string, string> = {};
+  for (const [name, formatter] of Object.entries(formatters)) {
+    for (const [type, typeValues] of Object.entries(values)) {
+      typeValues.forEach((value, index) => {
+        snapshots[`${locale} ${name} ${type} ${dateToString(dates[index])}`] = formatter.format(value);
+      });
+
+      // The first two and the last two supported days
+      const [first, , last] = typeValues;
+      snapshots[`${locale} ${name} ${type} range ${dateToString(start)}..+1`] = formatter.formatRange(first, first.add({days: 1}));
+      snapshots[`${locale} ${name} ${type} range -1..${dateToString(end)}`] = formatter.formatRange(last.subtract({days: 1}), last);
+    }
+  }
+
+  return snapshots;
+}
+
+function main() {
+  const fs = require('node:fs');
+  const path = require('node:path');
+
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const entry = args.find(arg => arg !== '--update');
+  const lib: Library = require(entry ? path.resolve(entry) : '@internationalized/date');
+
+  const anchors: Anchor[] = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures/bikram-sambat-anchors.json'), 'utf8'));
+  const fixtureFile = path.join(__dirname, 'fixtures/nepali-date-time-format.json');
+
+  const failures: string[] = [];
+  const days = checkRoundTrips(lib, failures);
+  checkAnchors(lib, anchors, failures);
+  const widthChecks = checkFieldWidths(lib, failures);
+  const estimatedDaysOff = checkEstimatedDates(lib, failures);
+  const grids = checkMonthGrids(lib, failures);
+  const commandLineMonths = entry ? 0 : checkCommandLine(lib, failures);
+
+  const snapshots = getFormatSnapshots(lib);
+  if (update) {
+    fs.writeFileSync(fixtureFile, JSON.stringify(snapshots, null, 2) + '\n');
+  } else {
+    const expected: Record<string, string> = JSON.parse(fs.readFileSync(fixtureFile, 'utf8'));
+    for (const key of new Set([...Object.keys(expected), ...Object.keys(snapshots)])) {
+      if (expected[key] !== snapshots[key]) {
+        failures.push(`${key}: expected ${JSON.stringify(expected[key])}, got ${JSON.stringify(snapshots[key])}`);
+      }
+    }
+  }
+
+  console.log(`${entry ?? '@internationalized/date'}: ${days} days, ${anchors.length} anchors, ${widthChecks} field width checks, ${estimatedDaysOff} estimated days off, ${grids} month grids, ${commandLineMonths} command-line months, ${Object.keys(snapshots).length} format snapshots${update ? ' (updated)' : ''}`);
+  for (const failure of failures) {
+    console.log('  ' + failure);
+  }
+
+  if (failures.length > 0) {
+    console.log(`${failures.length} failures`);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -7,7 +7,9 @@
 
 // Input data: Year -> array of month lengths (12 values per year)
 // Format: {YEAR: [Month1, Month2, Month3, ..., Month12]}
-const MONTH_DATA = {
+// Years must be contiguous. After changing the data, run this script to regenerate generate-bikramsambat.ts,
+// then run that and copy the data and VIKRAM_YEAR_ZERO it prints into NepaliCalendar.ts.
+export const MONTH_DATA: {[year: number]: number[]} = {
   1970: [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
   1971: [31, 31, 32, 31, 32, 30, 30, 29, 30, 29, 30, 30],
   1972: [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
@@ -171,7 +173,14 @@ function encodeMonthLengths(monthLengths) {
  */
 function generateBikramArray() {
   // Sort years for consistent output
-  const sortedYears = Object.keys(MONTH_DATA).map(Number).sort();
+  const sortedYears = Object.keys(MONTH_DATA).map(Number).sort((a, b) => a - b);
+
+  // The year start table assumes there are no gaps between years
+  for (let i = 1; i < sortedYears.length; i++) {
+    if (sortedYears[i] !== sortedYears[i - 1] + 1) {
+      throw new Error('Missing month data for year: ' + (sortedYears[i - 1] + 1));
+    }
+  }
 
   // Process years in groups (typically 5 years per group)
   const YEARS_PER_GROUP = 5;
@@ -210,6 +219,7 @@ function generateBikramArray() {
   output += '];\n\n';
 
   output += 'console.log(Buffer.from(new Uint32Array(BIKRAM_SABMAT_MONTH_DATA).buffer).toString(\'base64\'));\n';
+  output += `console.log('VIKRAM_YEAR_ZERO = ${sortedYears[0]}');\n`;
 
   return output;
 }
@@ -0,0 +1,255 @@
+// Bikram Sambat lookup table generator
+//
+// Exports the month data used by NepaliCalendar as lookup tables, so that databases convert dates
+// exactly like the library does:
+//
+//   bikram-sambat-days.csv / .jsonl     One row per day: ad, bs_year, bs_month, bs_day
+//   bikram-sambat-months.csv / .jsonl   One row per month: bs_year, bs_month, days, ad_start, ad_end
+//   bikram-sambat-postgres.sql          Tables, data and the bs_from_ad and ad_from_bs functions for PostgreSQL
+//   bikram-sambat-sqlite.sql            Tables and data for SQLite
+//
+// Usage: tsx scripts/generate-bikramsambat-tables.ts [output directory] [--mode table|hybrid|astronomical]
+//
+// The hybrid and astronomical modes add years estimated from the solar sankranti, whose months can start a
+// day off the almanacs (see NepaliCalendarMode). Use them only where approximate dates are acceptable.
+//
+// The CSV and JSON Lines files have a header row or one object per line with flat, typed columns, and
+// load as they are into BigQuery or Parquet converters. Dates are ISO 8601 (YYYY-MM-DD) Gregorian dates.
+//
+// The tables come from the installed @internationalized/date, with the newest patch in patches/ applied by
+// pnpm install. Run gen-patch.sh first to export changes to modified-files/ (see "Running the scripts" in
+// the README).
+
+import {
+  CalendarDate,
+  GregorianCalendar,
+  NepaliCalendar,
+  NepaliCalendarMode,
+  toCalendar
+} from '@internationalized/date';
+
+interface MonthRow {
+  bs_year: number,
+  bs_month: number,
+  days: number,
+  ad_start: string,
+  ad_end: string
+}
+
+interface DayRow {
+  ad: string,
+  bs_year: number,
+  bs_month: number,
+  bs_day: number
+}
+
+const gregorianCalendar = new GregorianCalendar();
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+function dateToString(date: CalendarDate) {
+  return `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+function getMonthRows(calendar: NepaliCalendar): MonthRow[] {
+  const {start, end} = calendar.getSupportedRange();
+  const rows: MonthRow[] = [];
+  for (let year = start.year; year <= end.year; year++) {
+    for (let month = 1; month <= 12; month++) {
+      const first = new CalendarDate(calendar, year, month, 1);
+      const days = calendar.getDaysInMonth(first);
+      rows.push({
+        bs_year: year,
+        bs_month: month,
+        days,
+        ad_start: dateToString(toCalendar(first, gregorianCalendar)),
+        ad_end: dateToString(toCalendar(first.set({day: days}), gregorianCalendar))
+      });
+    }
+  }
+
+  return rows;
+}
+
+function getDayRows(calendar: NepaliCalendar): DayRow[] {
+  const {start, end} = calendar.getSupportedRange();
+  const rows: DayRow[] = [];
+  for (let year = start.year; year <= end.year; year++) {
+    for (let month = 1; month <= 12; month++) {
+      const first = new CalendarDate(calendar, year, month, 1);
+      const gregorian = toCalendar(first, gregorianCalendar);
+      for (let day = 1; day <= calendar.getDaysInMonth(first); day++) {
+        rows.push({
+          ad: dateToString(gregorian.add({days: day - 1})),
+          bs_year: year,
+          bs_month: month,
+          bs_day: day
+        });
+      }
+    }
+  }
+
+  return rows;
+}
+
+function toCsv(rows: object[]) {
+  const lines = [Object.keys(rows[0]).join(',')];
+  for (const row of rows) {
+    lines.push(Object.values(row).join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function toJsonLines(rows: object[]) {
+  return rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+}
+
+function toInsertValues(rows: MonthRow[]) {
+  return rows.map(row => `  (${row.bs_year}, ${row.bs_month}, ${row.days}, '${row.ad_start}', '${row.ad_end}')`).join(',\n');
+}
+
+function toPostgres(rows: MonthRow[], source: string) {
+  return `-- Bikram Sambat lookup tables for PostgreSQL, generated from ${source}. Do not edit.
+--
+-- Convert timestamps to the date in Nepal before looking them up, e.g. to group rows by Bikram Sambat month:
+--
+--   SELECT m.bs_year, m.bs_month, count(*)
+--   FROM orders o
+--   JOIN bs_months m ON (o.created_at AT TIME ZONE 'Asia/Kathmandu')::date BETWEEN m.ad_start AND m.ad_end
+--   GROUP BY m.bs_year, m.bs_month;
+
+CREATE TABLE IF NOT EXISTS bs_months (
+  bs_year smallint NOT NULL,
+  bs_month smallint NOT NULL CHECK (bs_month BETWEEN 1 AND 12),
+  days smallint NOT NULL CHECK (days BETWEEN 29 AND 32),
+  ad_start date NOT NULL UNIQUE,
+  ad_end date NOT NULL UNIQUE,
+  PRIMARY KEY (bs_year, bs_month)
+);
+
+CREATE TABLE IF NOT EXISTS bs_days (
+  ad date PRIMARY KEY,
+  bs_year smallint NOT NULL,
+  bs_month smallint NOT NULL,
+  bs_day smallint NOT NULL,
+  UNIQUE (bs_year, bs_month, bs_day)
+);
+
+TRUNCATE bs_months, bs_days;
+
+INSERT INTO bs_months (bs_year, bs_month, days, ad_start, ad_end) VALUES
+${toInsertValues(rows)};
+
+INSERT INTO bs_days (ad, bs_year, bs_month, bs_day)
+SELECT ad_start + n, bs_year, bs_month, n + 1
+FROM bs_months, generate_series(0, days - 1) AS n;
+
+-- Returns the Bikram Sambat date of a Gregorian date as YYYY-MM-DD, or null outside the supported range
+CREATE OR REPLACE FUNCTION bs_from_ad(ad date) RETURNS text
+LANGUAGE sql STABLE STRICT AS $$
+  SELECT format('%s-%s-%s', lpad(bs_year::text, 4, '0'), lpad(bs_month::text, 2, '0'), lpad(bs_day::text, 2, '0'))
+  FROM bs_days WHERE bs_days.ad = $1
+$$;
+
+-- Returns the Gregorian date of a Bikram Sambat date, or null if the date does not exist
+CREATE OR REPLACE FUNCTION ad_from_bs(bs_year integer, bs_month integer, bs_day integer) RETURNS date
+LANGUAGE sql STABLE STRICT AS $$
+  SELECT m.ad_start + ($3 - 1)
+  FROM bs_months m WHERE m.bs_year = $1 AND m.bs_month = $2 AND $3 BETWEEN 1 AND m.days
+$$;
+`;
+}
+
+function toSqlite(rows: MonthRow[], source: string) {
+  return `-- Bikram Sambat lookup tables for SQLite, generated from ${source}. Do not edit.
+--
+-- SQLite has no SQL-defined functions, so convert by joining, e.g.
+--
+--   SELECT d.bs_year, d.bs_month, count(*)
+--   FROM orders o JOIN bs_days d ON d.ad = date(o.created_at, '+5 hours', '+45 minutes')
+--   GROUP BY d.bs_year, d.bs_month;
+--
+-- and back with: SELECT date(ad_start, '+' || (:bs_day - 1) || ' days') FROM bs_months WHERE ...
+
+CREATE TABLE IF NOT EXISTS bs_months (
+  bs_year INTEGER NOT NULL,
+  bs_month INTEGER NOT NULL CHECK (bs_month BETWEEN 1 AND 12),
+  days INTEGER NOT NULL CHECK (days BETWEEN 29 AND 32),
+  ad_start TEXT NOT NULL UNIQUE,
+  ad_end TEXT NOT NULL UNIQUE,
+  PRIMARY KEY (bs_year, bs_month)
+);
+
+CREATE TABLE IF NOT EXISTS bs_days (
+  ad TEXT PRIMARY KEY,
+  bs_year INTEGER NOT NULL,
+  bs_month INTEGER NOT NULL,
+  bs_day INTEGER NOT NULL,
+  UNIQUE (bs_year, bs_month, bs_day)
+);
+
+DELETE FROM bs_days;
+DELETE FROM bs_months;
+
+INSERT INTO bs_months (bs_year, bs_month, days, ad_start, ad_end) VALUES
+${toInsertValues(rows)};
+
+INSERT INTO bs_days (ad, bs_year, bs_month, bs_day)
+WITH RECURSIVE day (bs_year, bs_month, bs_day, days, ad) AS (
+  SELECT bs_year, bs_month, 1, days, ad_start FROM bs_months
+  UNION ALL
+  SELECT bs_year, bs_month, bs_day + 1, days, date(ad, '+1 day') FROM day WHERE bs_day < days
+)
+SELECT ad, bs_year, bs_month, bs_day FROM day;
+`;
+}
+
+function main() {
+  const fs = require('node:fs');
+  const path = require('node:path');
+
+  let outputDir = '.';
+  let mode: NepaliCalendarMode = 'table';
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--mode') {
+      const value = args[++i];
+      if (value !== 'table' && value !== 'hybrid' && value !== 'astronomical') {
+        throw new Error('Invalid mode: ' + value);
+      }
+
+      mode = value;
+    } else {
+      outputDir = args[i];
+    }
+  }
+
+  const calendar = new NepaliCalendar({mode});
+  const {start, end} = calendar.getSupportedRange();
+  const source = `the NepaliCalendar ${mode} data, ${start.year}-${end.year} BS`;
+  const months = getMonthRows(calendar);
+  const days = getDayRows(calendar);
+
+  const files: Record<string, string> = {
+    'bikram-sambat-days.csv': toCsv(days),
+    'bikram-sambat-days.jsonl': toJsonLines(days),
+    'bikram-sambat-months.csv': toCsv(months),
+    'bikram-sambat-months.jsonl': toJsonLines(months),
+    'bikram-sambat-postgres.sql': toPostgres(months, source),
+    'bikram-sambat-sqlite.sql': toSqlite(months, source)
+  };
+
+  fs.mkdirSync(outputDir, {recursive: true});
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(outputDir, name), content);
+  }
+
+  console.log(`Wrote ${months.length} months and ${days.length} days (${source}) to ${outputDir}`);
+}
+
+if (require.main === module) {
+  main();
+}
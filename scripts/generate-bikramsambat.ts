@@ -108,3 +108,4 @@ const BIKRAM_SABMAT_MONTH_DATA = [
 ];
 
 console.log(Buffer.from(new Uint32Array(BIKRAM_SABMAT_MONTH_DATA).buffer).toString('base64'));
+console.log('VIKRAM_YEAR_ZERO = 1970');
@@ -0,0 +1,342 @@
+// Bikram Sambat month data verifier
+//
+// Decodes the packed VIKRAM_MONTH_DATA shipped in NepaliCalendar.ts and checks that:
+//
+//   - every month has 29 to 32 days and every year 365 or 366 days
+//   - the year-start table is continuous and every year begins in mid April
+//   - it matches MONTH_DATA in generate-bikramsambat-monthlength.ts
+//   - known anchor dates, listed in fixtures/bikram-sambat-anchors.json, convert as published
+//
+// Reference datasets from other publishers can be passed to get a per-year, per-month discrepancy report.
+// They are JSON files with twelve month lengths per year, e.g. {"2081": [31, 32, ...]}, or in the packed
+// encoding ({"startYear": 1970, "data": "..."}), or CSV files with a year and twelve month lengths per line.
+//
+// Usage: tsx scripts/verify-bikramsambat.ts [reference.json|reference.csv ...] [--anchor 2081-01-01=2024-04-13 ...] [--format text|json]
+//
+// Exits with status 1 when the shipped data fails a check. Differences from reference datasets are
+// reported but do not fail the run, since published tables disagree with each other. Dates are computed
+// from Julian days, so the verifier runs without installing the package.
+
+import {MONTH_DATA} from './generate-bikramsambat-monthlength';
+
+type MonthData = Map<number, number[]>;
+
+interface Anchor {
+  bs: string,
+  ad: string,
+  source: string
+}
+
+interface MonthDiscrepancy {
+  year: number,
+  month: number,
+  monthName: string,
+  shipped: number | null,
+  reference: number | null,
+  // The first Bikram Sambat date that exists in only one of the datasets or converts differently
+  firstAffectedDate: string
+}
+
+interface Report {
+  range: {startYear: number, endYear: number},
+  errors: string[],
+  anchors: Array<Anchor & {actual: string | null, ok: boolean}>,
+  references: Array<{name: string, discrepancies: MonthDiscrepancy[], missingYears: number[]}>
+}
+
+const MONTH_NAMES = [
+  'Baisakh', 'Jestha', 'Asadh', 'Shrawan', 'Bhadra', 'Ashwin',
+  'Kartik', 'Mangsir', 'Poush', 'Magh', 'Falgun', 'Chaitra'
+];
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+function formatDate(year: number, month: number, day: number) {
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/** Converts a Julian day number to a proleptic Gregorian date, with Richards' algorithm. */
+function fromJulianDay(jd: number): {year: number, month: number, day: number} {
+  const f = jd + 1401 + Math.floor(Math.floor((4 * jd + 274277) / 146097) * 3 / 4) - 38;
+  const e = 4 * f + 3;
+  const g = Math.floor((e % 1461) / 4);
+  const h = 5 * g + 2;
+  const month = (Math.floor(h / 153) + 2) % 12 + 1;
+  return {
+    year: Math.floor(e / 1461) - 4716 + Math.floor((14 - month) / 12),
+    month,
+    day: Math.floor((h % 153) / 5) + 1
+  };
+}
+
+function julianDayToString(jd: number) {
+  const date = fromJulianDay(jd);
+  return formatDate(date.year, date.month, date.day);
+}
+
+/** Reads a constant from the source of NepaliCalendar.ts, so that the shipped data is checked as is. */
+function readConstant(source: string, name: string): string {
+  const match = source.match(new RegExp(`const ${name} = '?([^';\\s]+)'?;`));
+  if (!match) {
+    throw new Error('Could not find ' + name + ' in NepaliCalendar.ts');
+  }
+
+  return match[1];
+}
+
+function unpack(startYear: number, data: string): MonthData {
+  const words = new Uint32Array(Uint8Array.from(atob(data), c => c.charCodeAt(0)).buffer);
+  const years: MonthData = new Map();
+  words.forEach((word, index) => {
+    const lengths: number[] = [];
+    for (let month = 0; month < 12; month++) {
+      lengths.push(29 + ((word >>> (month << 1)) & 3));
+    }
+
+    // Only the low 24 bits hold month lengths, so anything above them means the data is corrupt
+    years.set(startYear + index, word >>> 24 ? [] : lengths);
+  });
+
+  return years;
+}
+
+function fromObject(object: {[year: string]: number[]}): MonthData {
+  return new Map(Object.entries(object).map(([year, lengths]) => [Number(year), lengths]));
+}
+
+function readReference(file: string): MonthData {
+  const fs = require('node:fs');
+  const text: string = fs.readFileSync(file, 'utf8');
+
+  if (file.endsWith('.csv')) {
+    const years: MonthData = new Map();
+    for (const line of text.split(/\r?\n/)) {
+      const fields = line.split(',').map(field => field.trim());
+      // Skip the header and blank lines
+      if (!/^\d+$/.test(fields[0])) {
+        continue;
+      }
+
+      years.set(Number(fields[0]), fields.slice(1).map(Number));
+    }
+
+    return years;
+  }
+
+  const json = JSON.parse(text);
+  return typeof json.data === 'string' ? unpack(json.startYear, json.data) : fromObject(json);
+}
+
+/** Checks the month and year lengths and the year-start table, returning the Julian day of each Baisakh 1. */
+function checkInvariants(data: MonthData, anchorYear: number, anchorEpoch: number, errors: string[]): Map<number, number> {
+  const years = [...data.keys()].sort((a, b) => a - b);
+  const yearStarts = new Map<number, number>();
+  let yearStart = 0;
+  for (const [index, year] of years.entries()) {
+    if (index > 0 && year !== years[index - 1] + 1) {
+      errors.push(`Missing data for ${years[index - 1] + 1} BS`);
+    }
+
+    const lengths = data.get(year)!;
+    if (lengths.length !== 12) {
+      errors.push(`Expected 12 months in ${year} BS, found ${lengths.length}`);
+      continue;
+    }
+
+    lengths.forEach((days, month) => {
+      if (!Number.isInteger(days) || days < 29 || days > 32) {
+        errors.push(`Invalid length for ${MONTH_NAMES[month]} ${year} BS: ${days}`);
+      }
+    });
+
+    const daysInYear = lengths.reduce((sum, days) => sum + days, 0);
+    if (daysInYear !== 365 && daysInYear !== 366) {
+      errors.push(`Invalid number of days in ${year} BS: ${daysInYear}`);
+    }
+
+    yearStarts.set(year, yearStart);
+    yearStart += daysInYear;
+  }
+
+  if (!yearStarts.has(anchorYear)) {
+    errors.push(`The data does not include the anchor year ${anchorYear} BS`);
+    return new Map();
+  }
+
+  // The year-start table is relative to the first year; anchor it at the epoch
+  const epoch = anchorEpoch - yearStarts.get(anchorYear)!;
+  const julianDays = new Map<number, number>();
+  let previous: number | null = null;
+  for (const year of years) {
+    if (!yearStarts.has(year)) {
+      continue;
+    }
+
+    const jd = epoch + yearStarts.get(year)!;
+    julianDays.set(year, jd);
+
+    // Baisakh 1 follows Mesh Sankranti, which falls on 12 to 15 April in this era
+    const start = fromJulianDay(jd);
+    if (start.month !== 4 || start.day < 12 || start.day > 15 || start.year !== year - 57) {
+      errors.push(`${year} BS starts on ${julianDayToString(jd)}, outside 12-15 April ${year - 57}`);
+    }
+
+    if (previous !== null && jd - previous !== 365 && jd - previous !== 366) {
+      errors.push(`${year} BS starts ${jd - previous} days after the previous year`);
+    }
+
+    previous = jd;
+  }
+
+  return julianDays;
+}
+
+function bsToJulianDay(data: MonthData, yearStarts: Map<number, number>, bs: string): number | null {
+  const [year, month, day] = bs.split('-').map(Number);
+  const lengths = data.get(year);
+  const yearStart = yearStarts.get(year);
+  if (!lengths || yearStart === undefined || month < 1 || month > 12 || day < 1 || day > lengths[month - 1]) {
+    return null;
+  }
+
+  return yearStart + lengths.slice(0, month - 1).reduce((sum, days) => sum + days, 0) + day - 1;
+}
+
+function compare(shipped: MonthData, reference: MonthData): {discrepancies: MonthDiscrepancy[], missingYears: number[]} {
+  const discrepancies: MonthDiscrepancy[] = [];
+  const missingYears: number[] = [];
+  const years = [...new Set([...shipped.keys(), ...reference.keys()])].sort((a, b) => a - b);
+  for (const year of years) {
+    const ours = shipped.get(year);
+    const theirs = reference.get(year);
+    if (!ours || !theirs) {
+      // Years only in the reference could extend the data; years only in ours are not covered by it
+      if (theirs) {
+        missingYears.push(year);
+      }
+      continue;
+    }
+
+    // The dates of a month shift from its first day when the months before it add up differently
+    let offset = 0;
+    for (let month = 1; month <= 12; month++) {
+      const a = ours[month - 1] ?? null;
+      const b = theirs[month - 1] ?? null;
+      if (a !== b) {
+        discrepancies.push({
+          year,
+          month,
+          monthName: MONTH_NAMES[month - 1],
+          shipped: a,
+          reference: b,
+          firstAffectedDate: formatDate(year, month, offset !== 0 ? 1 : Math.min(a ?? 0, b ?? 0) + 1)
+        });
+      }
+
+      offset += (a ?? 0) - (b ?? 0);
+    }
+  }
+
+  return {discrepancies, missingYears};
+}
+
+function printReport(report: Report) {
+  console.log(`Bundled data: ${report.range.startYear}-${report.range.endYear} BS`);
+  console.log(report.errors.length === 0 ? 'Invariants: ok' : `Invariants: ${report.errors.length} errors`);
+  for (const error of report.errors) {
+    console.log('  ' + error);
+  }
+
+  const failedAnchors = report.anchors.filter(anchor => !anchor.ok);
+  console.log(`Anchor dates: ${report.anchors.length - failedAnchors.length} of ${report.anchors.length} ok`);
+  for (const anchor of failedAnchors) {
+    console.log(`  ${anchor.bs} BS should be ${anchor.ad} AD (${anchor.source}), but is ${anchor.actual ?? 'not supported'}`);
+  }
+
+  for (const {name, discrepancies, missingYears} of report.references) {
+    const years = new Set(discrepancies.map(discrepancy => discrepancy.year));
+    console.log(`\n${name}: ${discrepancies.length} months differ in ${years.size} years`);
+    for (const year of years) {
+      const months = discrepancies.filter(discrepancy => discrepancy.year === year);
+      console.log(`  ${year} BS (from ${months[0].firstAffectedDate}): ` + months.map(month =>
+        `${month.monthName} ${month.shipped ?? '-'} vs ${month.reference ?? '-'}`
+      ).join(', '));
+    }
+
+    if (missingYears.length > 0) {
+      const first = missingYears[0];
+      const last = missingYears[missingYears.length - 1];
+      console.log(`  Only in ${name}: ${first === last ? first : first + '-' + last} BS`);
+    }
+  }
+}
+
+function main() {
+  const fs = require('node:fs');
+  const path = require('node:path');
+
+  const references: string[] = [];
+  const anchors: Anchor[] = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures/bikram-sambat-anchors.json'), 'utf8'));
+  let format = 'text';
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--anchor') {
+      const [bs, ad] = (args[++i] ?? '').split('=');
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(bs) || !/^\d{4}-\d{2}-\d{2}$/.test(ad)) {
+        throw new Error('Invalid anchor, expected BS=AD dates such as 2081-01-01=2024-04-13: ' + args[i]);
+      }
+
+      anchors.push({bs, ad, source: 'command line'});
+    } else if (args[i] === '--format') {
+      format = args[++i];
+    } else {
+      references.push(args[i]);
+    }
+  }
+
+  const source = fs.readFileSync(path.join(__dirname, '../modified-files/src/calendars/NepaliCalendar.ts'), 'utf8');
+  const shipped = unpack(Number(readConstant(source, 'VIKRAM_YEAR_ZERO')), readConstant(source, 'VIKRAM_MONTH_DATA'));
+  const anchorYear = Number(readConstant(source, 'NEPALI_ANCHOR_YEAR'));
+  const anchorEpoch = Number(readConstant(source, 'NEPALI_ANCHOR_EPOCH'));
+
+  const errors: string[] = [];
+  const yearStarts = checkInvariants(shipped, anchorYear, anchorEpoch, errors);
+
+  // The generator input and its packed output must not drift apart
+  const generated = compare(shipped, fromObject(MONTH_DATA));
+  for (const discrepancy of generated.discrepancies) {
+    errors.push(`${discrepancy.monthName} ${discrepancy.year} BS has ${discrepancy.shipped} days, but MONTH_DATA has ${discrepancy.reference}`);
+  }
+
+  for (const year of generated.missingYears) {
+    errors.push(`${year} BS is in MONTH_DATA but not in VIKRAM_MONTH_DATA`);
+  }
+
+  const years = [...shipped.keys()];
+  const report: Report = {
+    range: {startYear: Math.min(...years), endYear: Math.max(...years)},
+    errors,
+    anchors: anchors.map(anchor => {
+      const jd = bsToJulianDay(shipped, yearStarts, anchor.bs);
+      const actual = jd === null ? null : julianDayToString(jd);
+      return {...anchor, actual, ok: actual === anchor.ad};
+    }),
+    references: references.map(file => ({name: path.basename(file), ...compare(shipped, readReference(file))}))
+  };
+
+  if (format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (errors.length > 0 || report.anchors.some(anchor => !anchor.ok)) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main();
+}